@@ -20,8 +20,19 @@ import Schemas from './database/Schemas';
 import GuildDatabaseManager from './database/GuildDatabaseManager';
 import Util, { Nullable } from './util';
 import initializeDB from './database/initializeDB';
+import GuildDataLifecycle from './database/GuildDataLifecycle';
+import UserDataManager from './database/UserDataManager';
+import { DatabaseCacheOptions } from './database/DatabaseCache';
+import DatabaseStorage from './database/storage/base';
+import MongoDatabaseStorage from './database/storage/mongo';
 import CommandoInteraction from './extensions/interaction';
 import {
+    AnyCommandoSelectMenuInteraction,
+    CommandoAutocompleteInteraction,
+    CommandoButtonInteraction,
+    CommandoMessageContextMenuCommandInteraction,
+    CommandoModalSubmitInteraction,
+    CommandoUserContextMenuCommandInteraction,
     CommandoUserResolvable,
     OverwrittenClientEvents,
 } from './discord.overrides';
@@ -31,6 +42,13 @@ import ArgumentType from './types/base';
 import CommandGroup from './commands/group';
 import SettingProvider from './providers/base';
 import GuildSettingsHelper from './providers/helper';
+import SettingsSchema from './providers/schema';
+import ThrottleStore from './throttles/base';
+import MemoryThrottleStore from './throttles/memory';
+import SettingsSyncTransport from './sync/base';
+import CommandStatusStore from './statuses/base';
+import MemoryCommandStatusStore from './statuses/memory';
+import ShardSettingsSyncTransport from './sync/shard';
 
 export interface CommandoClientOptions extends ClientOptions {
     /**
@@ -58,15 +76,65 @@ export interface CommandoClientOptions extends ClientOptions {
     testAppGuild?: string;
     /** The URI which will establish your connection with MongoDB */
     mongoDbURI?: string;
+    /**
+     * How each database manager caches its documents, mapped by its name (e.g. `moderations`)
+     * @default { maxSize: 200 } // for every manager
+     */
+    databaseCache?: DatabaseCacheOptions;
+    /**
+     * The storage the database managers keep their documents in
+     * @default new MongoDatabaseStorage()
+     */
+    databaseStorage?: DatabaseStorage;
+    /**
+     * Time in milliseconds to keep the documents and settings of a guild after it removes the bot, or `null` to keep
+     * them forever
+     * @default null
+     */
+    guildDataRetention?: number | null;
     /** The directory in which your modules are stored in */
     modulesDir?: string;
     /** The names of the modules to exclude */
     excludeModules?: string[];
+    /**
+     * The store used to keep track of command throttles
+     * @default new MemoryThrottleStore()
+     */
+    throttleStore?: ThrottleStore;
+    /**
+     * The store used to keep track of whether commands and groups are enabled
+     * @default new MemoryCommandStatusStore()
+     */
+    commandStatusStore?: CommandStatusStore;
+    /** The schema the settings of the client's {@link SettingProvider} are validated and migrated with */
+    settingsSchema?: SettingsSchema;
+    /**
+     * The transport used to propagate setting changes to other shards, or `null` to not propagate them
+     * @default new ShardSettingsSyncTransport() // if spawned by a ShardingManager
+     */
+    settingsSync?: SettingsSyncTransport | null;
+    /**
+     * Provider the `migrate-settings` command copies the settings from, into the client's provider. It must be
+     * loaded with {@link SettingProvider.load SettingProvider#load} first, so it doesn't apply its settings to the
+     * client nor store the client's changes.
+     */
+    settingsMigrationSource?: SettingProvider;
 }
 
 export interface CommandoClientEvents extends OverwrittenClientEvents {
-    commandBlock: [context: CommandContext, reason: CommandBlockReason, data?: CommandBlockData];
-    commandCancel: [command: Command, reason: string, message: CommandoMessage, result?: ArgumentCollectorResult];
+    commandBlock: [
+        context:
+        | AnyCommandoSelectMenuInteraction
+        | CommandContext
+        | CommandoAutocompleteInteraction
+        | CommandoButtonInteraction
+        | CommandoMessageContextMenuCommandInteraction
+        | CommandoModalSubmitInteraction
+        | CommandoUserContextMenuCommandInteraction,
+        reason: CommandBlockReason,
+        data?: CommandBlockData
+    ];
+    commandCancel: [command: Command, reason: string, context: CommandContext, result?: ArgumentCollectorResult];
     commandError: [
         command: Command,
         error: Error,
@@ -80,6 +148,7 @@ export interface CommandoClientEvents extends OverwrittenClientEvents {
     commandoMessageDelete: [message: CommandoMessage];
     commandoMessageUpdate: [oldMessage: CommandoMessage, newMessage: CommandoMessage];
     commandPrefixChange: [guild?: CommandoGuild | null, prefix?: string | null];
+    commandPrefixesChange: [guild: CommandoGuild | null, prefixes: string[]];
     commandRegister: [command: Command, registry: CommandoRegistry];
     commandReregister: [newCommand: Command, oldCommand: Command];
     commandRun: [
@@ -95,6 +164,8 @@ export interface CommandoClientEvents extends OverwrittenClientEvents {
     databaseReady: [client: CommandoClient<true>];
     groupRegister: [group: CommandGroup, registry: CommandoRegistry];
     groupStatusChange: [guild: CommandoGuild | null, group: CommandGroup, enabled: boolean];
+    guildDataLoad: [guild: CommandoGuild];
+    guildDataPurge: [guildId: string];
     guildsReady: [client: CommandoClient<true>];
     modulesReady: [client: CommandoClient<true>];
     providerReady: [provider: SettingProvider];
@@ -112,6 +183,11 @@ export default class CommandoClient<
      * Internal global command prefix, controlled by the {@link CommandoClient.prefix CommandoClient#prefix} getter/setter
      */
     protected _prefix?: string | null;
+    /**
+     * Internal additional global command prefixes, controlled by {@link CommandoClient.addPrefix CommandoClient#addPrefix}
+     * and {@link CommandoClient.removePrefix CommandoClient#removePrefix}
+     */
+    protected _prefixes: string[];
 
     /** Invite for the bot */
     public botInvite: string | null;
@@ -131,6 +207,20 @@ export default class CommandoClient<
     public provider: If<ProviderReady, Provider>;
     /** Shortcut to use setting provider methods for the global settings */
     public settings: GuildSettingsHelper;
+    /** The storage the database managers keep their documents in */
+    public databaseStorage: DatabaseStorage;
+    /** Loads the data of joining guilds and deletes the data of the ones that remove the client */
+    public guildDataLifecycle: GuildDataLifecycle;
+    /** Exports and erases the data stored about users */
+    public userData: UserDataManager;
+    /** The store used to keep track of command throttles */
+    public throttleStore: ThrottleStore;
+    /** The store used to keep track of whether commands and groups are enabled */
+    public commandStatusStore: CommandStatusStore;
+    /** The schema the settings of the client's provider are validated and migrated with */
+    public settingsSchema: SettingsSchema | null;
+    /** The transport used to propagate setting changes to other shards */
+    public settingsSync: SettingsSyncTransport | null;
 
     /**
      * @param options - Options for the client
@@ -160,10 +250,24 @@ export default class CommandoClient<
         this.provider = null as If<ProviderReady, Provider>;
         // @ts-expect-error: constructor is protected in GuildSettingsHelper
         this.settings = new GuildSettingsHelper(this, null);
+        this.databaseStorage = options.databaseStorage ?? new MongoDatabaseStorage();
+        this.databaseStorage.init(this as CommandoClient);
         this.database = new ClientDatabaseManager(this as CommandoClient);
         this.databases = new Collection();
+        this.guildDataLifecycle = new GuildDataLifecycle(this as CommandoClient);
+        this.userData = new UserDataManager(this as CommandoClient);
         this.databaseSchemas = Schemas;
+        this.throttleStore = options.throttleStore ?? new MemoryThrottleStore();
+        this.throttleStore.init(this as CommandoClient);
+        this.commandStatusStore = options.commandStatusStore ?? new MemoryCommandStatusStore();
+        this.commandStatusStore.init(this as CommandoClient);
+        this.settingsSchema = options.settingsSchema ?? null;
+        this.settingsSync = typeof options.settingsSync !== 'undefined'
+            ? options.settingsSync
+            : this.shard ? new ShardSettingsSyncTransport() : null;
+        this.settingsSync?.init(this as CommandoClient);
         this._prefix = null;
+        this._prefixes = [];
 
         this.initDefaultListeners();
 
@@ -191,6 +295,37 @@ export default class CommandoClient<
         this.emit('commandPrefixChange', null, prefix);
     }
 
+    /** All global command prefixes: {@link CommandoClient.prefix CommandoClient#prefix} first, then the additional ones */
+    public get prefixes(): string[] {
+        return Util.uniquePrefixes([this.prefix, ...this._prefixes]);
+    }
+
+    /**
+     * Adds an additional global command prefix, which can be used alongside the main one
+     * @param prefix - Prefix to add
+     * @emits {@link CommandoClientEvents.commandPrefixesChange commandPrefixesChange}
+     */
+    public addPrefix(prefix: string): void {
+        if (typeof prefix !== 'string' || !prefix) throw new TypeError('Prefix must be a non-empty string.');
+        if (this._prefixes.some(existing => existing.toLowerCase() === prefix.toLowerCase())) return;
+        this._prefixes.push(prefix);
+        this.emit('commandPrefixesChange', null, [...this._prefixes]);
+    }
+
+    /**
+     * Removes an additional global command prefix
+     * @param prefix - Prefix to remove
+     * @returns Whether the prefix was removed
+     * @emits {@link CommandoClientEvents.commandPrefixesChange commandPrefixesChange}
+     */
+    public removePrefix(prefix: string): boolean {
+        const index = this._prefixes.findIndex(existing => existing.toLowerCase() === prefix.toLowerCase());
+        if (index === -1) return false;
+        this._prefixes.splice(index, 1);
+        this.emit('commandPrefixesChange', null, [...this._prefixes]);
+        return true;
+    }
+
     /**
      * Owners of the bot, set by the {@link CommandoClientOptions.owners CommandoClientOptions#owners} option
      * <info>If you simply need to check if a user is an owner of the bot, please instead use
@@ -297,6 +432,10 @@ export default class CommandoClient<
             else options.owners.add(ownerId);
         });
 
+        const catchErr = (err: Error): void => {
+            this.emit('error', err);
+        };
+
         // Parses all the guild instances
         this.once('ready', this.parseGuilds);
         this.on('guildCreate', guild => {
@@ -304,10 +443,16 @@ export default class CommandoClient<
             this.emit('commandoGuildCreate', commandoGuild);
         });
 
+        // Loads the data of joining guilds, and schedules the deletion of the data of the ones that remove the client
+        this.on('commandoGuildCreate', guild => {
+            this.guildDataLifecycle.load(guild).catch(catchErr);
+        });
+        this.on('guildDelete', guild => {
+            this.databases.delete(guild.id);
+            this.guildDataLifecycle.schedulePurge(guild.id);
+        });
+
         // Set up message command handling
-        const catchErr = (err: Error): void => {
-            this.emit('error', err);
-        };
         this.on('messageCreate', async message => {
             const commando = new CommandoMessage(this as CommandoClient<true>, message);
             await this.dispatcher['handleMessage'](commando).catch(catchErr);
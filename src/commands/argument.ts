@@ -18,22 +18,24 @@ import {
     VoiceChannel,
     GuildBasedChannel,
     AnyThreadChannel,
+    ApplicationCommandOptionChoiceData,
 } from 'discord.js';
 import CommandoClient from '../client';
 import CommandoMessage from '../extensions/message';
+import { CommandoAutocompleteInteraction } from '../discord.overrides';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import CommandoRegistry from '../registry';
 import ArgumentType from '../types/base';
 import ArgumentUnionType from '../types/union';
 import Util from '../util';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-import Command, { CommandInfo } from './base';
+import Command, { CommandContext, CommandInfo } from './base';
 import CommandGroup from './group';
 
 type ArgumentCheckerParams<T extends ArgumentTypeString = ArgumentTypeString> = [
-    originalMessage: CommandoMessage,
+    originalContext: CommandContext,
     argument: Argument<T>,
-    currentMessage?: CommandoMessage,
+    currentContext?: CommandContext,
 ];
 
 /** Maps default argument type IDs to their return types. */
@@ -67,10 +69,13 @@ export interface ArgumentTypeStringMap {
 /** Default argument type IDs. */
 export type ArgumentTypeString = keyof ArgumentTypeStringMap;
 
-/** Either a value or a function that returns a value. The function is passed the CommandoMessage and the Argument. */
+/**
+ * Either a value or a function that returns a value. The function is passed the {@link CommandContext} and the
+ * Argument.
+ */
 export type ArgumentDefault<T extends ArgumentTypeString = ArgumentTypeString> =
     | ArgumentTypeStringMap[T]
-    | ((msg: CommandoMessage, arg: Argument<T>) => Promise<ArgumentTypeStringMap[T]>);
+    | ((context: CommandContext, arg: Argument<T>) => Promise<ArgumentTypeStringMap[T]>);
 
 /** Information for the command argument */
 export interface ArgumentInfo<T extends ArgumentTypeString = ArgumentTypeString> {
@@ -122,6 +127,16 @@ export interface ArgumentInfo<T extends ArgumentTypeString = ArgumentTypeString>
      * @default false;
      */
     infinite?: boolean;
+    /**
+     * Whether the argument is a named flag instead of a positional one. In message commands, its value is then
+     * specified with `--flag-name value` or `--flag-name=value`, where `flag-name` is the key in kebab-case.
+     * - Boolean flags don't take a value (just `--flag-name`), and default to `false`.
+     * - Flags can't accept infinite values.
+     * @default false
+     */
+    flag?: boolean;
+    /** Single-letter alias of the flag, used as `-f value`. Requires {@link ArgumentInfo.flag flag} to be `true` */
+    shortFlag?: string;
     /** Validator function for the argument (see {@link ArgumentType.validate ArgumentType#validate}) */
     validate?: (value: string | undefined, ...args: ArgumentCheckerParams<T>) => Awaitable<boolean | string>;
     /** Parser function for the argument (see {@link ArgumentType.parse ArgumentType#parse}) */
@@ -135,10 +150,13 @@ export interface ArgumentInfo<T extends ArgumentTypeString = ArgumentTypeString>
     wait?: number;
     /**
      * Whether the automatically generated slash option will be flagged as `autocomplete`.
-     * - This will only work for types {@link ArgumentTypeStringMap.string string},
-     * {@link ArgumentTypeStringMap.integer integer} and {@link ArgumentTypeStringMap.float float}.
+     * - The choices are taken from {@link ArgumentInfo.oneOf ArgumentInfo#oneOf} if specified, otherwise from
+     * {@link ArgumentType.autocomplete ArgumentType#autocomplete}, unless the command implements
+     * {@link Command.runAutocomplete Command#runAutocomplete}.
+     * - Types other than {@link ArgumentTypeStringMap.string string}, {@link ArgumentTypeStringMap.integer integer}
+     * and {@link ArgumentTypeStringMap.float float} will be generated as string options.
      * - Will only be used if {@link CommandInfo.autogenerateSlashCommand CommandInfo#autogenerateSlashCommand}
-     * is set to `true`. If so, {@link ArgumentInfo.oneOf ArgumentInfo#oneOf} will be ignored.
+     * is set to `true`.
      */
     autocomplete?: boolean;
 }
@@ -217,6 +235,12 @@ export default class Argument<T extends ArgumentTypeString = ArgumentTypeString>
     public oneOf: Array<number | string> | null;
     /** Whether the argument accepts an infinite number of values */
     public infinite: boolean;
+    /** Whether the argument is a named flag instead of a positional one */
+    public flag: boolean;
+    /** Single-letter alias of the flag */
+    public shortFlag: string | null;
+    /** Whether the argument's slash option is autocompleted */
+    public autocomplete: boolean;
     /**
      * Validator function for validating a value for the argument
      * @see {@link ArgumentType.validate ArgumentType#validate}
@@ -251,17 +275,30 @@ export default class Argument<T extends ArgumentTypeString = ArgumentTypeString>
         this.type = Argument.resolveType(client, info.type);
         this.max = info.max ?? null;
         this.min = info.min ?? null;
-        this.default = info.default ?? null;
-        this.required = 'required' in info ? !!info.required : !('default' in info);
+        this.flag = !!info.flag;
+        this.shortFlag = info.shortFlag ?? null;
+        this.default = info.default ?? (this.isBooleanFlag ? false as ArgumentDefault<T> : null);
+        this.required = 'required' in info ? !!info.required : !('default' in info) && !this.isBooleanFlag;
         this.skipExtraDateValidation = !!info.skipExtraDateValidation;
         this.oneOf = info.oneOf?.map(el => typeof el === 'string' ? el.toLowerCase() : el) ?? null;
         this.infinite = !!info.infinite;
+        this.autocomplete = !!info.autocomplete;
         this.validator = info.validate ?? null;
         this.parser = info.parse ?? null;
         this.emptyChecker = info.isEmpty ?? null;
         this.wait = info.wait ?? 30;
     }
 
+    /** Name of the flag, without the leading dashes */
+    public get flagName(): string {
+        return Util.camelToKebabCase(this.key);
+    }
+
+    /** Whether the argument is a boolean flag, which doesn't take a value */
+    public get isBooleanFlag(): boolean {
+        return this.flag && this.type?.id === 'boolean';
+    }
+
     /**
      * Prompts the user and obtains the value for the argument
      * @param message - Message that triggered the command
@@ -505,17 +542,17 @@ export default class Argument<T extends ArgumentTypeString = ArgumentTypeString>
     /**
      * Checks if a value is valid for the argument
      * @param value - Value to check
-     * @param originalMessage - Message that triggered the command
-     * @param currentMessage - Current response message
+     * @param originalContext - Message or interaction that triggered the command
+     * @param currentContext - Current response message or interaction
      */
     public async validate(
-        value: string | undefined, originalMessage: CommandoMessage, currentMessage: CommandoMessage = originalMessage
+        value: string | undefined, originalContext: CommandContext, currentContext: CommandContext = originalContext
     ): Promise<boolean | string> {
         if (!this.type || (!this.type && this.validator)) {
             throw new Error('Argument must have both validate and parse since it doesn\'t have a type.');
         }
         const validator = this.validator?.bind(this) ?? this.type.validate.bind(this.type);
-        const valid = validator(value, originalMessage, this, currentMessage);
+        const valid = validator(value, originalContext, this, currentContext);
 
         if (!valid || typeof valid === 'string') return this.error || valid;
         if (Util.isPromise(valid)) {
@@ -534,36 +571,56 @@ export default class Argument<T extends ArgumentTypeString = ArgumentTypeString>
     /**
      * Parses a value string into a proper value for the argument
      * @param value - Value to parse
-     * @param originalMessage - Message that triggered the command
-     * @param currentMessage - Current response message
+     * @param originalContext - Message or interaction that triggered the command
+     * @param currentContext - Current response message or interaction
      */
     public async parse(
-        value: string, originalMessage: CommandoMessage, currentMessage: CommandoMessage = originalMessage
+        value: string, originalContext: CommandContext, currentContext: CommandContext = originalContext
     ): Promise<ArgumentTypeStringMap[T] | null> {
-        if (this.parser) return await this.parser(value, originalMessage, this, currentMessage);
+        if (this.parser) return await this.parser(value, originalContext, this, currentContext);
         if (!this.type) {
             throw new Error('Argument must have both validate and parse since it doesn\'t have a type.');
         }
-        return await this.type.parse(value, originalMessage, this, currentMessage);
+        return await this.type.parse(value, originalContext, this, currentContext);
     }
 
     /**
      * Checks whether a value for the argument is considered to be empty
      * @param value - Value to check for emptiness
-     * @param originalMsg - Message that triggered the command
-     * @param currentMsg - Current response message
+     * @param originalContext - Message or interaction that triggered the command
+     * @param currentContext - Current response message or interaction
      */
     public isEmpty(
         value: string[] | string | undefined,
-        originalMessage: CommandoMessage,
-        currentMessage: CommandoMessage = originalMessage
+        originalContext: CommandContext,
+        currentContext: CommandContext = originalContext
     ): boolean {
-        if (this.emptyChecker) return this.emptyChecker(value, originalMessage, this, currentMessage);
-        if (this.type) return this.type.isEmpty(value, originalMessage, this, currentMessage);
+        if (this.emptyChecker) return this.emptyChecker(value, originalContext, this, currentContext);
+        if (this.type) return this.type.isEmpty(value, originalContext, this, currentContext);
         if (Array.isArray(value)) return value.length === 0;
         return !value;
     }
 
+    /**
+     * Obtains the autocomplete choices for a partial value of the argument
+     * @param query - Partial value the user has typed so far
+     * @param interaction - Autocomplete interaction that requested the choices
+     */
+    public async autocompleteChoices(
+        query: string, interaction: CommandoAutocompleteInteraction
+    ): Promise<ApplicationCommandOptionChoiceData[]> {
+        if (this.oneOf) {
+            const search = query.toLowerCase();
+            return this.oneOf
+                .filter(value => value.toString().toLowerCase().includes(search))
+                .slice(0, 25)
+                .map(value => ({ name: value.toString(), value }));
+        }
+        if (!this.type?.autocomplete) return [];
+        const choices = await this.type.autocomplete(query, interaction, this);
+        return choices.slice(0, 25);
+    }
+
     /**
      * Validates the constructor parameters
      * @param client - Client to validate
@@ -596,6 +653,14 @@ export default class Argument<T extends ArgumentTypeString = ArgumentTypeString>
         if (!info.type && (!info.validate || !info.parse)) {
             throw new Error('Argument must have both validate and parse since it doesn\'t have a type.');
         }
+        if ('flag' in info && typeof info.flag !== 'boolean') throw new TypeError('Argument flag must be a boolean.');
+        if (info.flag && info.infinite) throw new Error('Flag arguments can\'t be infinite.');
+        if ('shortFlag' in info) {
+            if (!info.flag) throw new Error('Argument shortFlag can only be used on flag arguments.');
+            if (typeof info.shortFlag !== 'string' || !/^[a-z]$/i.test(info.shortFlag)) {
+                throw new TypeError('Argument shortFlag must be a single letter.');
+            }
+        }
         if (typeof info.wait !== 'undefined' && (typeof info.wait !== 'number' || isNaN(info.wait))) {
             throw new TypeError('Argument wait must be a number.');
         }
@@ -26,24 +26,45 @@ import {
     ApplicationCommandOptionAllowedChannelTypes,
     GuildResolvable,
     escapeMarkdown,
+    ClientUser,
+    Snowflake,
+    Collection,
+    ApplicationCommandSubCommandData,
 } from 'discord.js';
 import path from 'path';
 import ArgumentCollector, { ArgumentCollectorResult, ParseRawArguments } from './collector';
 import Util, { Nullable } from '../util';
 import CommandoClient from '../client';
 import CommandGroup from './group';
-import { ArgumentInfoResolvable, ArgumentTypeString } from './argument';
+import Subcommand, { SubcommandInfo } from './subcommand';
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+import { ArgumentInfo, ArgumentInfoResolvable, ArgumentTypeString } from './argument';
 import CommandoMessage, { CommandoMessageResponse } from '../extensions/message';
 import CommandoGuild from '../extensions/guild';
 import CommandoInteraction from '../extensions/interaction';
 import {
+    AnyCommandoSelectMenuInteraction,
     CommandoAutocompleteInteraction,
+    CommandoChatInputCommandInteraction,
+    CommandoButtonInteraction,
     CommandoGuildMember,
     CommandoGuildResolvable,
     CommandoMessageContextMenuCommandInteraction,
+    CommandoModalSubmitInteraction,
+    CommandoTextBasedChannel,
     CommandoUserContextMenuCommandInteraction,
 } from '../discord.overrides';
-import { stripIndents } from 'common-tags';
+import { stripIndent, stripIndents } from 'common-tags';
+
+/**
+ * What the usages of a throttled command are counted for:
+ * - `user`: each user, everywhere
+ * - `member`: each user, separately in each guild
+ * - `channel`: each channel
+ * - `guild`: each guild (direct messages are counted per channel)
+ * - `global`: everyone, everywhere
+ */
+export type ThrottlingScope = 'channel' | 'global' | 'guild' | 'member' | 'user';
 
 /** Options for throttling usages of the command. */
 export interface ThrottlingOptions {
@@ -51,6 +72,16 @@ export interface ThrottlingOptions {
     usages: number;
     /** Amount of time to count the usages of the command within (in seconds). */
     duration: number;
+    /**
+     * What the usages of the command are counted for.
+     * @default 'user'
+     */
+    scope?: ThrottlingScope;
+    /**
+     * Different usages and/or duration for members with specific roles, mapped by role ID. If a member has more
+     * than one of these roles, the most permissive one (most usages per second) will be used.
+     */
+    roleOverrides?: Record<Snowflake, Partial<Pick<ThrottlingOptions, 'duration' | 'usages'>>>;
 }
 
 export type CommandArgumentsResolvable = ArgumentInfoResolvable[] | readonly ArgumentInfoResolvable[];
@@ -135,8 +166,14 @@ export interface CommandInfo<
      * @default false
      */
     testAppCommand?: boolean;
-    /** Arguments for the command. */
+    /** Arguments for the command. Can't be used along with `subcommands`. */
     args?: Args;
+    /**
+     * Subcommands of the command, each one with their own arguments. The called subcommand will be available
+     * in the `subCommand` and `subCommandGroup` properties of the `args` parameter of {@link Command.run Command#run}.
+     * Can't be used along with `args`.
+     */
+    subcommands?: SubcommandInfo[];
     /**
      * Maximum number of times to prompt a user for a single argument. Only applicable if `args` is specified.
      * @default Infinity
@@ -195,8 +232,9 @@ export interface CommandInfo<
      * - No options will be generated if you specified your own.
      * - Check {@link ArgumentTypeToSlashMap} for details on how each argument type
      * is parsed.
-     * - Arguments without a type will be skipped.
+     * - Arguments without a type will be skipped, and will be prompted for when the command is used.
      * - If an argument as multiple types, the parser will choose the first one.
+     * - Option values are validated and parsed through the arguments, the same way as message command arguments.
      * @default false
      */
     autogenerateSlashCommand?: boolean;
@@ -215,8 +253,6 @@ export interface Throttle {
     start: number;
     /** Amount usages of the command */
     usages: number;
-    /** Timeout function for this throttle */
-    timeout: NodeJS.Timeout;
 }
 
 /** The context that ran the command */
@@ -224,6 +260,25 @@ export type CommandContext<InGuild extends boolean = boolean> =
     | CommandoInteraction<InGuild>
     | CommandoMessage<InGuild>;
 
+/** The context that can be blocked by {@link Command.onBlock Command#onBlock} */
+export type CommandBlockContext =
+    | AnyCommandoSelectMenuInteraction
+    | CommandContext
+    | CommandoButtonInteraction
+    | CommandoMessageContextMenuCommandInteraction
+    | CommandoModalSubmitInteraction
+    | CommandoUserContextMenuCommandInteraction;
+
+/** Data parsed from a custom ID created with {@link Command.buildCustomId Command#buildCustomId} */
+export interface ParsedCustomId<State = unknown> {
+    /** Name of the command that owns the component or modal */
+    commandName: string;
+    /** Action to run */
+    action: string;
+    /** State that was encoded in the custom ID, `null` if none was provided */
+    state: State | null;
+}
+
 /** The reason of {@link Command.onBlock Command#onBlock} */
 export type CommandBlockReason =
     | 'clientPermissions'
@@ -255,6 +310,19 @@ export interface CommandBlockData {
     missing?: PermissionsString[];
 }
 
+/** Result of {@link Command.runBlockPipeline Command#runBlockPipeline} */
+export type CommandBlockPipelineResult = {
+    /** The command was blocked */
+    blocked: true;
+    /** Response sent to the user, if any */
+    response: CommandoMessageResponse;
+} | {
+    /** The command was not blocked */
+    blocked: false;
+    /** The throttle a usage was added to, which should be refunded if the command doesn't run, if any */
+    throttle: Throttle | null;
+};
+
 type OmittedChatInputDataKeys =
     | 'defaultMemberPermissions'
     | 'description'
@@ -350,6 +418,14 @@ const channelTypeMap: Record<ChannelTypeMapKey, ApplicationCommandOptionAllowedC
 
 const channelTypeMapKeys = Object.keys(channelTypeMap) as ChannelTypeMapKey[];
 
+const autocompleteOptionTypes: SlashCommandOptionType[] = [
+    SlashCommandOptionType.Integer,
+    SlashCommandOptionType.Number,
+    SlashCommandOptionType.String,
+];
+
+const throttlingScopes: ThrottlingScope[] = ['channel', 'global', 'guild', 'member', 'user'];
+
 /**
  * A command that can be run in a client. For examples see the `commands` or `util` folders
  * (both in `pixoll-commando/src/commands`).
@@ -400,6 +476,8 @@ export default abstract class Command<
     public throttling: ThrottlingOptions | null;
     /** The argument collector for the command */
     public argsCollector: ArgumentCollector<Args> | null;
+    /** Subcommands of the command, mapped by their name */
+    public subcommands: Collection<string, Subcommand>;
     /** How the arguments are split when passed to the command's run method */
     public argsType: 'multiple' | 'single';
     /** Maximum number of arguments that will be split */
@@ -422,14 +500,12 @@ export default abstract class Command<
     public testAppCommand: boolean;
     /** Data for the slash command */
     public slashCommand: APISlashCommand | null;
+    /** Whether the slash command was generated from the command's arguments */
+    public autogenerateSlashCommand: boolean;
     /** Data for the context menu commands */
     public contextMenuCommands: APIContextMenuCommand[];
     /** Whether to call the default {@link Command.onError Command#onError} when a command fails. */
     public defaultErrorHandling: boolean;
-    /** Whether the command is enabled globally */
-    protected _globalEnabled: boolean;
-    /** Current throttle objects for the command, mapped by user ID */
-    protected _throttles: Map<string, Throttle>;
 
     /**
      * @param client - The client the command is for
@@ -469,13 +545,11 @@ export default abstract class Command<
         this.argsCollector = info.args?.length
             ? new ArgumentCollector<Args>(client, info.args, info.argsPromptLimit)
             : null;
-        if (this.argsCollector && !info.format) {
-            this.format = this.argsCollector.args.reduce((prev, arg) => {
-                const wrapL = arg.required ? '[' : '<';
-                const wrapR = arg.required ? ']' : '>';
-                return `${prev}${prev ? ' ' : ''}${wrapL}${arg.label}${arg.infinite ? '...' : ''}${wrapR}`;
-            }, '');
-        }
+        if (this.argsCollector && !info.format) this.format = this.argsCollector.format;
+        this.subcommands = new Collection(info.subcommands?.map(subcommand =>
+            [subcommand.name, new Subcommand(client, this as unknown as Command, subcommand, info.argsPromptLimit)]
+        ));
+        if (this.subcommands.size > 0 && !info.format) this.format = `[${[...this.subcommands.keys()].join('|')}]`;
 
         this.argsType = info.argsType ?? 'single';
         this.argsCount = info.argsCount ?? 0;
@@ -488,10 +562,9 @@ export default abstract class Command<
         this.deprecatedReplacement = info.deprecatedReplacement ?? null;
         this.testAppCommand = !!info.testAppCommand;
         this.slashCommand = Command.validateAndParseSlashInfo(info as CommandInfo, slashInfo);
+        this.autogenerateSlashCommand = !!info.autogenerateSlashCommand && !slashInfo?.options;
         this.contextMenuCommands = Command.validateAndParseContextMenuInfo(info as CommandInfo);
         this.defaultErrorHandling = !!info.defaultErrorHandling;
-        this._globalEnabled = true;
-        this._throttles = new Map();
     }
 
     /**
@@ -513,23 +586,76 @@ export default abstract class Command<
     ): Awaitable<Nullable<CommandoMessageResponse> | void>;
 
     /**
-     * Run the slash command auto-complete interaction logic.
+     * Run the slash command auto-complete interaction logic. If not implemented, the choices of arguments with
+     * {@link ArgumentInfo.autocomplete ArgumentInfo#autocomplete} will be sent automatically.
      * @param interaction - The auto-complete interaction
      */
     public runAutocomplete?(interaction: CommandoAutocompleteInteraction): Awaitable<void>;
 
     /**
-     * Run the slash command auto-complete interaction logic.
-     * @param interaction - The auto-complete interaction
+     * Run the message context menu command interaction logic.
+     * @param interaction - The message context menu command interaction
      */
     public runMessageContextMenu?(interaction: CommandoMessageContextMenuCommandInteraction): Awaitable<void>;
 
     /**
-     * Run the slash command auto-complete interaction logic.
-     * @param interaction - The auto-complete interaction
+     * Run the user context menu command interaction logic.
+     * @param interaction - The user context menu command interaction
      */
     public runUserContextMenu?(interaction: CommandoUserContextMenuCommandInteraction): Awaitable<void>;
 
+    /**
+     * Run the button interaction logic. Only called for buttons whose custom ID was created with
+     * {@link Command.buildCustomId Command#buildCustomId}.
+     * @param interaction - The button interaction
+     * @param action - The action encoded in the custom ID
+     * @param state - The state encoded in the custom ID
+     */
+    public runButton?(interaction: CommandoButtonInteraction, action: string, state: unknown): Awaitable<void>;
+
+    /**
+     * Run the select menu interaction logic. Only called for select menus whose custom ID was created with
+     * {@link Command.buildCustomId Command#buildCustomId}.
+     * @param interaction - The select menu interaction
+     * @param action - The action encoded in the custom ID
+     * @param state - The state encoded in the custom ID
+     */
+    public runSelectMenu?(
+        interaction: AnyCommandoSelectMenuInteraction, action: string, state: unknown
+    ): Awaitable<void>;
+
+    /**
+     * Run the modal submit interaction logic. Only called for modals whose custom ID was created with
+     * {@link Command.buildCustomId Command#buildCustomId}.
+     * @param interaction - The modal submit interaction
+     * @param action - The action encoded in the custom ID
+     * @param state - The state encoded in the custom ID
+     */
+    public runModalSubmit?(interaction: CommandoModalSubmitInteraction, action: string, state: unknown): Awaitable<void>;
+
+    /**
+     * Creates a custom ID for a component or modal that will be routed to this command's
+     * {@link Command.runButton runButton}, {@link Command.runSelectMenu runSelectMenu} or
+     * {@link Command.runModalSubmit runModalSubmit} handlers. Format: `<command name>:<action>[:<state>]`, where the
+     * state is JSON encoded in base64url.
+     * @param action - Identifier of the action the component or modal triggers
+     * @param state - JSON-serializable state to pass to the handler
+     */
+    public buildCustomId(action: string, state?: unknown): string {
+        if (typeof action !== 'string' || !action) throw new TypeError('Custom ID action must be a non-empty string.');
+        if (action.includes(':')) throw new RangeError('Custom ID action must not contain ":".');
+
+        const encodedState = typeof state !== 'undefined'
+            ? `:${Buffer.from(JSON.stringify(state)).toString('base64url')}`
+            : '';
+        const customId = `${this.name}:${action}${encodedState}`;
+        if (customId.length > 100) {
+            throw new RangeError(`Custom ID must be at most 100 characters long, received ${customId.length}.`);
+        }
+
+        return customId;
+    }
+
     /**
      * Checks whether the user has permission to use the command
      * @param context - The triggering command context
@@ -537,10 +663,11 @@ export default abstract class Command<
      * @return Whether the user has permission, or an error message to respond with if they don't
      */
     public hasPermission(
-        context: CommandContext<InGuild>, ownerOverride = true
+        context: CommandBlockContext, ownerOverride = true
     ): CommandBlockReason | PermissionsString[] | boolean {
         const { guildOwnerOnly, ownerOnly, userPermissions, modPermissions, client } = this;
-        const { channel, guild, member, author } = context;
+        const { channel, guild, member } = context;
+        const author = context instanceof Message ? context.author : context.user;
 
         if (!guildOwnerOnly && !ownerOnly && !userPermissions && !modPermissions) return true;
         if (ownerOverride && client.isOwner(author)) return true;
@@ -568,7 +695,7 @@ export default abstract class Command<
 
     /**
      * Called when the command is prevented from running
-     * @param context - The context og the command
+     * @param context - The context of the command
      * @param reason - Reason that the command was blocked
      * @param data - Additional data associated with the block. Built-in reason data properties:
      * - guildOnly: none
@@ -577,7 +704,7 @@ export default abstract class Command<
      * - userPermissions & clientPermissions: `missing` (Array<string>) permission names
      */
     public async onBlock(
-        context: CommandContext, reason: CommandBlockReason, data: CommandBlockData = {}
+        context: CommandBlockContext, reason: CommandBlockReason, data: CommandBlockData = {}
     ): Promise<Message | null> {
         const { name, hidden } = this;
         if (hidden) return null;
@@ -630,6 +757,138 @@ export default abstract class Command<
         }
     }
 
+    /**
+     * Runs every check that could prevent the command from running in the given context, in order: client permissions
+     * to respond, DM/guild/NSFW restrictions, user permissions, required client permissions and throttling.
+     * The `commandBlock` event and {@link Command.onBlock Command#onBlock} are called for the first one that fails.
+     * @param context - The context the command is being run for
+     * @param checkThrottle - Whether to check the throttling of the command
+     */
+    protected async runBlockPipeline(
+        context: CommandBlockContext, checkThrottle = true
+    ): Promise<CommandBlockPipelineResult> {
+        const { client, clientPermissions } = this;
+        const { guild, channelId } = context;
+        const clientUser = client.user as ClientUser;
+        const author = context instanceof Message ? context.author : context.user;
+        const channel = context.channel ?? (channelId
+            ? await client.channels.fetch(channelId) as CommandoTextBasedChannel | null
+            : null);
+
+        const block = (
+            reason: CommandBlockReason, data?: CommandBlockData
+        ): Promise<CommandBlockPipelineResult> => this.block(context, reason, data);
+
+        if (guild && channel && !channel.isDMBased()) {
+            const { members } = guild;
+
+            // Obtain the member for the ClientUser if it doesn't already exist
+            const me = members.me ?? await members.fetch(clientUser.id);
+
+            // Checks if the client has permission to send messages
+            const clientPerms = me.permissionsIn(channel.id).serialize();
+            if (clientPerms.ViewChannel && !clientPerms.SendMessages) {
+                const content = stripIndent`
+                    It seems like I cannot **Send Messages** in this channel: ${channel.toString()}
+                    Please try in another channel, or contact the admins of **${guild.name}** to solve this issue.
+                `;
+                const response = context instanceof Message
+                    ? await context.direct(content).catch(() => null)
+                    : await author.send(content).catch(() => null);
+                return { blocked: true, response };
+            }
+
+            // Checks if the client has permission to respond to application commands
+            if (!(context instanceof Message) && !clientPerms.UseApplicationCommands) {
+                await author.send(stripIndent`
+                    It seems like I cannot **Use Application Commands** in this channel: ${channel.toString()}
+                    Please try in another channel, or contact the admins of **${guild.name}** to solve this issue.
+                `).catch(() => null);
+                return { blocked: true, response: null };
+            }
+
+            // Make sure the command is usable in this context
+            if (this.dmOnly) return await block('dmOnly');
+        }
+
+        // Make sure the command is usable in this context
+        if ((this.guildOnly || this.guildOwnerOnly) && !guild) return await block('guildOnly');
+
+        // Ensure the channel is a NSFW one if required
+        if (this.nsfw && channel && 'nsfw' in channel && !channel.nsfw) return await block('nsfw');
+
+        // Ensure the user has permission to use the command
+        const hasPermission = this.hasPermission(context);
+        if (hasPermission !== true) {
+            if (typeof hasPermission === 'string') return await block(hasPermission);
+            return await block('userPermissions', { missing: hasPermission || undefined });
+        }
+
+        // Ensure the client user has the required permissions
+        if (channel && !channel.isDMBased() && clientPermissions) {
+            const missing = channel.permissionsFor(clientUser)?.missing(clientPermissions) ?? [];
+            if (missing.length > 0) return await block('clientPermissions', { missing });
+        }
+
+        if (!checkThrottle) return { blocked: false, throttle: null };
+
+        // Throttle the command
+        const throttling = this.resolveThrottling(context);
+        const throttle = await this.throttle(context);
+        if (throttle && throttling && throttle.usages > throttling.usages) {
+            await this.refundThrottle(context);
+            const remaining = (throttle.start + (throttling.duration * 1000) - Date.now()) / 1000;
+            return await block('throttling', { throttle: { ...throttle, usages: throttle.usages - 1 }, remaining });
+        }
+
+        return { blocked: false, throttle };
+    }
+
+    /**
+     * Runs the permission checks of a subcommand and its subcommand group (if any), which apply on top of the ones
+     * of the command. Should be called after {@link Command.runBlockPipeline Command#runBlockPipeline}.
+     * @param context - The context the command is being run for
+     * @param subcommand - The subcommand being run
+     */
+    protected async runSubcommandBlockPipeline(
+        context: CommandContext, subcommand: Subcommand
+    ): Promise<CommandBlockPipelineResult> {
+        const { client } = this;
+        const { author, channel } = context;
+        if (!channel || channel.isDMBased()) return { blocked: false, throttle: null };
+
+        const chain = Util.filterNullishItems([subcommand.group, subcommand]);
+        const userPermissions = chain.flatMap(sub => sub.userPermissions ?? []);
+        const clientPermissions = chain.flatMap(sub => sub.clientPermissions ?? []);
+
+        if (userPermissions.length > 0 && !client.isOwner(author)) {
+            const missing = channel.permissionsFor(author)?.missing(userPermissions, false) ?? [];
+            if (missing.length > 0) return await this.block(context, 'userPermissions', { missing });
+        }
+
+        if (clientPermissions.length > 0) {
+            const missing = channel.permissionsFor(client.user as ClientUser)?.missing(clientPermissions) ?? [];
+            if (missing.length > 0) return await this.block(context, 'clientPermissions', { missing });
+        }
+
+        return { blocked: false, throttle: null };
+    }
+
+    /**
+     * Blocks the command, emitting {@link CommandoClientEvents.commandBlock commandBlock} and calling
+     * {@link Command.onBlock Command#onBlock}
+     * @param context - The context being blocked
+     * @param reason - Reason that the command was blocked
+     * @param data - Additional data associated with the block
+     */
+    protected async block(
+        context: CommandBlockContext, reason: CommandBlockReason, data?: CommandBlockData
+    ): Promise<CommandBlockPipelineResult> {
+        this.client.emit('commandBlock', context, reason, data);
+        const response = await this.onBlock(context, reason, data);
+        return { blocked: true, response };
+    }
+
     /**
      * Called when the command produces an error while running. Default behaviour will be applied if
      * {@link CommandInfo.defaultErrorHandling CommandInfo#defaultErrorHandling} is set to `true`.
@@ -667,26 +926,77 @@ export default abstract class Command<
     }
 
     /**
-     * Creates/obtains the throttle object for a user, if necessary (owners are excluded)
-     * @param userId - ID of the user to throttle for
+     * Resolves the throttling usages and duration that apply to the user of a context, taking
+     * {@link ThrottlingOptions.roleOverrides ThrottlingOptions#roleOverrides} into account
+     * @param context - The context the command is being run for
+     */
+    protected resolveThrottling(context: CommandBlockContext): Pick<ThrottlingOptions, 'duration' | 'usages'> | null {
+        const { throttling } = this;
+        if (!throttling) return null;
+
+        const { usages, duration, roleOverrides } = throttling;
+        const { member } = context;
+        if (!roleOverrides || !member) return { usages, duration };
+
+        const overrides = Object.entries(roleOverrides)
+            .filter(([roleId]) => member.roles.cache.has(roleId))
+            .map(([, override]) => ({
+                usages: override.usages ?? usages,
+                duration: override.duration ?? duration,
+            }));
+        if (overrides.length === 0) return { usages, duration };
+
+        return overrides.reduce((best, override) =>
+            override.usages / override.duration > best.usages / best.duration ? override : best
+        );
+    }
+
+    /**
+     * Creates the key of the throttle bucket a context belongs to, based on the
+     * {@link ThrottlingOptions.scope ThrottlingOptions#scope}
+     * @param context - The context the command is being run for
      */
-    protected throttle(userId: string): Throttle | null {
-        const { throttling, _throttles, client } = this;
-        if (!throttling || client.isOwner(userId)) return null;
-
-        let throttle = _throttles.get(userId);
-        if (!throttle) {
-            throttle = {
-                start: Date.now(),
-                usages: 0,
-                timeout: setTimeout(() => {
-                    _throttles.delete(userId);
-                }, throttling.duration * 1000),
-            };
-            _throttles.set(userId, throttle);
+    protected throttleKey(context: CommandBlockContext): string {
+        const { name, throttling } = this;
+        const { guildId, channelId } = context;
+        const userId = context instanceof Message ? context.author.id : context.user.id;
+        const scope = throttling?.scope ?? 'user';
+
+        switch (scope) {
+            case 'global':
+                return `${name}:global`;
+            case 'guild':
+                return guildId ? `${name}:guild:${guildId}` : `${name}:channel:${channelId}`;
+            case 'channel':
+                return `${name}:channel:${channelId}`;
+            case 'member':
+                return guildId ? `${name}:member:${guildId}:${userId}` : `${name}:user:${userId}`;
+            case 'user':
+                return `${name}:user:${userId}`;
         }
+    }
+
+    /**
+     * Adds a usage to the throttle of a context in {@link CommandoClient.throttleStore CommandoClient#throttleStore},
+     * if necessary (owners are excluded). A new throttle is started if it doesn't exist yet.
+     * @param context - The context the command is being run for
+     * @returns The throttle with the usage added, or `null` if the context isn't throttled
+     */
+    protected async throttle(context: CommandBlockContext): Promise<Throttle | null> {
+        const { client } = this;
+        const throttling = this.resolveThrottling(context);
+        const author = context instanceof Message ? context.author : context.user;
+        if (!throttling || client.isOwner(author)) return null;
+
+        return await client.throttleStore.consume(this.throttleKey(context), throttling.duration);
+    }
 
-        return throttle;
+    /**
+     * Takes back the usage added by {@link Command.throttle Command#throttle}, when the command doesn't run after all
+     * @param context - The context the command was going to be run for
+     */
+    protected async refundThrottle(context: CommandBlockContext): Promise<void> {
+        await this.client.throttleStore.refund(this.throttleKey(context));
     }
 
     /**
@@ -701,7 +1011,7 @@ export default abstract class Command<
         if (typeof enabled === 'undefined') throw new TypeError('Enabled must not be undefined.');
         if (guarded) throw new Error('The command is guarded.');
         if (!guild) {
-            this._globalEnabled = enabled;
+            client.commandStatusStore.set('commands', 'global', this.name, !!enabled);
             if (!silent) client.emit('commandStatusChange', null, this as unknown as Command, enabled);
             return;
         }
@@ -718,7 +1028,7 @@ export default abstract class Command<
     public isEnabledIn(guild: CommandoGuildResolvable | null, bypassGroup?: boolean): boolean {
         const { client, group } = this;
         if (this.guarded) return true;
-        if (!guild) return group.isEnabledIn(null) && this._globalEnabled;
+        if (!guild) return group.isEnabledIn(null) && this.isGloballyEnabled();
         const commandoGuild = client.guilds.resolve(guild as GuildResolvable) as unknown as CommandoGuild | null;
         if (!commandoGuild) throw new Error(`Couldn't resolve guild ${guild}`);
         return (
@@ -726,12 +1036,17 @@ export default abstract class Command<
         ) && commandoGuild.isCommandEnabled(this as unknown as Command);
     }
 
+    /** Checks if the command is enabled globally, without taking its group's status into account */
+    protected isGloballyEnabled(): boolean {
+        return this.client.commandStatusStore.get('commands', 'global', this.name) ?? true;
+    }
+
     /**
      * Checks if the command is usable for a message
      * @param context - The command context
      */
     public isUsable(context?: CommandContext<InGuild>): boolean {
-        if (!context) return this._globalEnabled;
+        if (!context) return this.isGloballyEnabled();
         const { guild } = context;
         if (this.guildOnly && !context.inGuild()) return false;
         const hasPermission = this.hasPermission(context);
@@ -750,6 +1065,53 @@ export default abstract class Command<
         return Command.usage(`${this.name}${argString ? ` ${argString}` : ''}`, prefix, user);
     }
 
+    /**
+     * Resolves a subcommand from the names of its subcommand group (if any) and itself
+     * @param path - The names to resolve
+     * @return The subcommand, or `null` if the names don't lead to a subcommand that can be run
+     */
+    public resolveSubcommand(path: string[]): Subcommand | null {
+        let subcommand: Subcommand | null = null;
+        for (const name of path) {
+            const subcommands: Collection<string, Subcommand> = subcommand?.subcommands ?? this.subcommands;
+            subcommand = subcommands.get(name.toLowerCase()) ?? null;
+            if (!subcommand) return null;
+        }
+        return subcommand && subcommand.subcommands.size === 0 ? subcommand : null;
+    }
+
+    /**
+     * Parses the subcommand called by a message command from the start of its argument string
+     * @param argString - The argument string of the message
+     * @return The subcommand and the rest of the argument string, or `null` if no subcommand could be resolved
+     */
+    public parseSubcommand(argString: string): { subcommand: Subcommand; argString: string } | null {
+        let subcommand: Subcommand | null = null;
+        let rest = argString.trim();
+        do {
+            const [name] = rest.split(/\s/, 1);
+            const subcommands: Collection<string, Subcommand> = subcommand?.subcommands ?? this.subcommands;
+            subcommand = subcommands.get(name.toLowerCase()) ?? null;
+            if (!subcommand) return null;
+            rest = rest.slice(name.length).trim();
+        } while (subcommand.subcommands.size > 0);
+        return { subcommand, argString: rest };
+    }
+
+    /**
+     * Resolves the subcommand called by a slash command or autocomplete interaction
+     * @param interaction - The interaction to resolve the subcommand of
+     */
+    public resolveSlashSubcommand(
+        interaction: CommandoAutocompleteInteraction | CommandoChatInputCommandInteraction | CommandoInteraction
+    ): Subcommand | null {
+        if (this.subcommands.size === 0) return null;
+        const { commandName, options } = interaction;
+        const path = Util.filterNullishItems([options.getSubcommandGroup(false), options.getSubcommand(false)]);
+        // The first name is the command's own when it's merged into the slash command of its group
+        return this.resolveSubcommand(commandName === this.name ? path : path.slice(1));
+    }
+
     /** Reloads the command */
     public reload(): void {
         const { client, groupId, memberName } = this;
@@ -824,6 +1186,24 @@ export default abstract class Command<
         return `${prefixPart || ''}${prefix && user ? ' or ' : ''}${mentionPart || ''}`;
     }
 
+    /**
+     * Parses a custom ID created with {@link Command.buildCustomId Command#buildCustomId}
+     * @param customId - The custom ID to parse
+     * @returns The parsed data, or `null` if the custom ID doesn't follow the format
+     */
+    public static parseCustomId<State = unknown>(customId: string): ParsedCustomId<State> | null {
+        const [commandName, action, encodedState, ...rest] = customId.split(':');
+        if (!commandName || !action || rest.length !== 0) return null;
+        if (!encodedState) return { commandName, action, state: null };
+
+        try {
+            const state = JSON.parse(Buffer.from(encodedState, 'base64url').toString()) as State;
+            return { commandName, action, state };
+        } catch {
+            return null;
+        }
+    }
+
     /**
      * Validates the constructor parameters
      * @param client - Client to validate
@@ -885,8 +1265,31 @@ export default abstract class Command<
                 throw new TypeError('Command throttling duration must be a number.');
             }
             if (info.throttling.duration < 1) throw new RangeError('Command throttling duration must be at least 1.');
+            if ('scope' in info.throttling && !throttlingScopes.includes(info.throttling.scope as ThrottlingScope)) {
+                throw new RangeError(`Command throttling scope must be one of: ${throttlingScopes.join(', ')}.`);
+            }
+            if ('roleOverrides' in info.throttling) {
+                const { roleOverrides } = info.throttling;
+                if (typeof roleOverrides !== 'object') {
+                    throw new TypeError('Command throttling role overrides must be an object.');
+                }
+                const isInvalid = (value?: number): boolean =>
+                    !Util.isNullish(value) && (typeof value !== 'number' || isNaN(value) || value < 1);
+                const overrides = Object.values(roleOverrides);
+                if (overrides.some(override => isInvalid(override.usages))) {
+                    throw new RangeError('Command throttling role override usages must be a number of at least 1.');
+                }
+                if (overrides.some(override => isInvalid(override.duration))) {
+                    throw new RangeError('Command throttling role override duration must be a number of at least 1.');
+                }
+            }
         }
         if ('args' in info && !Array.isArray(info.args)) throw new TypeError('Command args must be an Array.');
+        if ('subcommands' in info) {
+            if (!Array.isArray(info.subcommands)) throw new TypeError('Command subcommands must be an Array.');
+            if (info.args?.length) throw new Error('Command args and subcommands can\'t be used together.');
+            if (info.subcommands.length > 25) throw new RangeError('Command can have at most 25 subcommands.');
+        }
         if ('argsPromptLimit' in info && typeof info.argsPromptLimit !== 'number') {
             throw new TypeError('Command argsPromptLimit must be a number.');
         }
@@ -929,6 +1332,7 @@ export default abstract class Command<
             dmOnly,
             guildOnly,
             args,
+            subcommands,
             testAppCommand,
         } = info;
         if (!slashInfo && !autogenerateSlashCommand) return null;
@@ -944,10 +1348,12 @@ export default abstract class Command<
             .setDefaultMemberPermissions(memberPermissions)
             .setNSFW(!!nsfw);
 
-        if (slashOptions || args) {
-            const options = slashOptions ?? (autogenerateSlashCommand && args
-                ? Util.filterNullishItems(args.map(parseMessageArgToSlashOption))
-                : null
+        if (slashOptions || args || subcommands) {
+            const options = slashOptions ?? (autogenerateSlashCommand && subcommands
+                ? subcommands.map(parseSubcommandToSlashOption)
+                : autogenerateSlashCommand && args
+                    ? parseMessageArgsToSlashOptions(args)
+                    : null
             );
             if (options) addSlashOptions(slash, options);
         }
@@ -1005,19 +1411,30 @@ function removeEmptyOptions(options?: APIApplicationCommandOption[]): void {
     }
 }
 
+function parseMessageArgsToSlashOptions(args: CommandArgumentsResolvable): BasicSlashCommandOptionData[] {
+    return Util.filterNullishItems(args.map(parseMessageArgToSlashOption))
+        // Required options must come before the optional ones, which may not be the case with flags
+        .sort((a, b) => +!!b.required - +!!a.required);
+}
+
 function parseMessageArgToSlashOption(arg: ArgumentInfoResolvable): BasicSlashCommandOptionData | null {
-    const { key: name, prompt: description, type: rawType, min, max, oneOf, autocomplete } = arg;
+    const { key: name, prompt: description, type: rawType, min, max, oneOf, autocomplete, flag } = arg;
     if (!rawType) return null;
 
-    const parsedOptionName = /[A-Z]/.test(name) ? name.replace(/([A-Z]+)/g, '-$1').toLowerCase() : name;
-    const required = 'required' in arg ? !!arg.required : !('default' in arg);
+    const parsedOptionName = Util.camelToKebabCase(name);
+    const argType = Array.isArray(rawType) ? rawType[0] : rawType as ArgumentTypeString;
+    // Boolean flags default to false
+    const required = 'required' in arg ? !!arg.required : !('default' in arg) && !(flag && argType === 'boolean');
     const defaultData: Required<Pick<BasicSlashCommandOptionData, 'description' | 'name' | 'required'>> = {
         name: parsedOptionName,
         description,
         required,
     };
-    const argType = Array.isArray(rawType) ? rawType[0] : rawType as ArgumentTypeString;
-    const type = argumentTypeToSlashMap[argType];
+    const mappedType = argumentTypeToSlashMap[argType];
+    // Only string, integer and number options can be autocompleted
+    const type = autocomplete && !autocompleteOptionTypes.includes(mappedType)
+        ? SlashCommandOptionType.String
+        : mappedType;
 
     if (Util.equals(type, [
         SlashCommandOptionType.Boolean, SlashCommandOptionType.User, SlashCommandOptionType.Role,
@@ -1041,8 +1458,11 @@ function parseMessageArgToSlashOption(arg: ArgumentInfoResolvable): BasicSlashCo
     if (type === SlashCommandOptionType.String) return {
         type,
         ...defaultData,
-        maxLength: max,
-        minLength: min,
+        // min and max only limit the length of the value for string arguments
+        ...argType === 'string' && {
+            maxLength: max,
+            minLength: min,
+        },
         ...autocomplete && { autocomplete },
         ...!autocomplete && oneOf && {
             choices: oneOf.filter((c): c is string => typeof c === 'string').map(choice => ({
@@ -1069,6 +1489,23 @@ function parseMessageArgToSlashOption(arg: ArgumentInfoResolvable): BasicSlashCo
     return null;
 }
 
+function parseSubcommandToSlashOption(subcommand: SubcommandInfo): SlashCommandOptionData {
+    const { name, description, args, subcommands } = subcommand;
+    if (subcommands) return {
+        type: SlashCommandOptionType.SubcommandGroup,
+        name,
+        description,
+        options: subcommands.map(parseSubcommandToSlashOption) as ApplicationCommandSubCommandData[],
+    };
+
+    return {
+        type: SlashCommandOptionType.Subcommand,
+        name,
+        description,
+        options: parseMessageArgsToSlashOptions(args ?? []),
+    };
+}
+
 type SlashCommandOptionBase =
     | ApplicationCommandOptionBase
     | SharedNameAndDescription;
@@ -1209,12 +1646,12 @@ function embed(name: string, value?: string): EmbedBuilder {
 }
 
 async function replyContext(
-    context: CommandContext, options: EmbedBuilder | Omit<MessageCreateOptions, 'flags'> | string
+    context: CommandBlockContext, options: EmbedBuilder | Omit<MessageCreateOptions, 'flags'> | string
 ): Promise<Message | null> {
     if (options instanceof EmbedBuilder) options = { embeds: [options] };
     if (typeof options === 'string') options = { content: options };
-    if ('isEditable' in context) {
-        if (context.isEditable()) {
+    if (!(context instanceof Message)) {
+        if (context.deferred || context.replied) {
             return await context.editReply(options).catch(() => null);
         }
         await context.reply(options).catch(() => null);
@@ -1,4 +1,20 @@
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    Colors,
+    EmbedBuilder,
+    ModalBuilder,
+    StringSelectMenuBuilder,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
 import CommandoClient from '../client';
+import {
+    CommandoMessageComponentInteraction,
+    CommandoModalSubmitInteraction,
+} from '../discord.overrides';
+import CommandoInteraction from '../extensions/interaction';
 import CommandoMessage from '../extensions/message';
 import Argument, {
     ArgumentInfo,
@@ -26,6 +42,34 @@ export interface ArgumentCollectorResult<T = Record<string, unknown>> {
     answers: ArgumentResponse[];
 }
 
+/** Any interaction that can be used to prompt the user for argument values */
+export type ArgumentPromptInteraction =
+    | CommandoInteraction
+    | CommandoMessageComponentInteraction
+    | CommandoModalSubmitInteraction;
+
+/** Result object from obtaining argument values from an interaction with an {@link ArgumentCollector} */
+export interface ArgumentCollectorInteractionResult<T = Record<string, unknown>> extends ArgumentCollectorResult<T> {
+    /**
+     * The last interaction used to answer a prompt, or the original interaction if there were no prompts.
+     * Unless the collection was cancelled, this interaction has not been replied to yet.
+     */
+    interaction: ArgumentPromptInteraction;
+}
+
+/** Result object from prompting the user for argument values through an interaction */
+interface InteractionPromptResult {
+    /** Raw values the user answered with, mapped by argument key */
+    values: Record<string, string> | null;
+    /** Reason the prompt was cancelled, if it was */
+    cancelled: 'time' | 'user' | null;
+    /** The interaction the user answered with, or the prompting one if there was no answer */
+    interaction: ArgumentPromptInteraction;
+}
+
+/** Maximum time an interaction can be responded to after it was created (in milliseconds) */
+const maxInteractionWait = 15 * 60_000;
+
 /**
  * Parses a raw argument info array into an `ArgumentInfo.key`-indexed object. The result from this type would ideally
  * be used as the `Command.run` `args` parameter type (see usage examples see the `commands` or `util` folders
@@ -92,23 +136,58 @@ export default class ArgumentCollector<Args extends CommandArgumentsResolvable>
         let hasInfinite = false;
         let hasOptional = false;
         for (let i = 0; i < args.length; i++) {
-            if (hasInfinite) throw new Error('No other argument may come after an infinite argument.');
-            if (args[i].default !== null) hasOptional = true;
-            else if (hasOptional) throw new Error('Required arguments may not come after optional arguments.');
+            // Flags aren't positional, so they can be declared anywhere
+            if (!args[i].flag) {
+                if (hasInfinite) throw new Error('No other argument may come after an infinite argument.');
+                if (args[i].default !== null) hasOptional = true;
+                else if (hasOptional) throw new Error('Required arguments may not come after optional arguments.');
+            }
             // @ts-expect-error: Argument's constructor is set as protected
             this.args[i] = new Argument(this.client, args[i]);
             if (this.args[i].infinite) hasInfinite = true;
         }
+
+        const flags = this.flags;
+        const duplicate = flags.find((flag, i) => flags.slice(0, i).some(other =>
+            other.flagName === flag.flagName || (!!flag.shortFlag && other.shortFlag === flag.shortFlag)
+        ));
+        if (duplicate) throw new Error(`Flag argument "${duplicate.key}" has a duplicate name or short flag.`);
+    }
+
+    /** Positional arguments, in the order they're provided in */
+    public get positionalArgs(): ArgumentCollectorArgs<Args> {
+        return this.args.filter(arg => !arg.flag);
+    }
+
+    /** Arguments provided as named flags */
+    public get flags(): ArgumentCollectorArgs<Args> {
+        return this.args.filter(arg => arg.flag);
+    }
+
+    /** Usage format string generated from the arguments */
+    public get format(): string {
+        return [...this.positionalArgs, ...this.flags].reduce((prev, arg) => {
+            const wrapL = arg.required ? '[' : '<';
+            const wrapR = arg.required ? ']' : '>';
+            const label = arg.flag
+                ? `--${arg.flagName}${arg.isBooleanFlag ? '' : ` ${arg.label}`}`
+                : `${arg.label}${arg.infinite ? '...' : ''}`;
+            return `${prev}${prev ? ' ' : ''}${wrapL}${label}${wrapR}`;
+        }, '');
     }
 
     /**
      * Obtains values for the arguments, prompting if necessary.
      * @param message - Message that the collector is being triggered by
-     * @param provided - Values that are already available
+     * @param provided - Values that are already available for the positional arguments
      * @param promptLimit - Maximum number of times to prompt for a single argument
+     * @param flags - Values that are already available for the flag arguments, mapped by argument key
      */
     public async obtain(
-        message: CommandoMessage, provided: string[] = [], promptLimit = this.promptLimit
+        message: CommandoMessage,
+        provided: string[] = [],
+        promptLimit = this.promptLimit,
+        flags: Record<string, string> = {}
     ): Promise<ArgumentCollectorResult<ParseRawArguments<Args>>> {
         const { author, channelId } = message;
         const awaiting = this.client.dispatcher['_awaiting'];
@@ -120,12 +199,13 @@ export default class ArgumentCollector<Args extends CommandArgumentsResolvable>
         const results: ArgumentResult[] = [];
 
         try {
-            for (let i = 0; i < args.length; i++) {
-                const arg = args[i];
+            let position = 0;
+            for (const arg of args) {
+                const value = arg.flag
+                    ? flags[arg.key]
+                    : arg.infinite ? provided.slice(position) : provided[position++];
                 // eslint-disable-next-line no-await-in-loop
-                const result = await arg.obtain(
-                    message, arg.infinite ? provided.slice(i) : provided[i], promptLimit
-                );
+                const result = await arg.obtain(message, value, promptLimit);
                 results.push(result);
 
                 if (result.cancelled) {
@@ -153,4 +233,244 @@ export default class ArgumentCollector<Args extends CommandArgumentsResolvable>
             answers: results.map(res => res.answers).flat(),
         };
     }
+
+    /**
+     * Obtains values for the arguments of a slash command, prompting through modals if they're missing or invalid.
+     * Arguments with up to 25 {@link Argument.oneOf Argument#oneOf} values are prompted through a select menu instead.
+     * Only the arguments with a key in `provided` are obtained.
+     * @param interaction - Interaction that the collector is being triggered by
+     * @param provided - Raw values that are already available, mapped by argument key
+     * @param promptLimit - Maximum number of times to prompt for a single argument
+     */
+    public async obtainFromInteraction(
+        interaction: CommandoInteraction, provided: Record<string, string | undefined>, promptLimit = this.promptLimit
+    ): Promise<ArgumentCollectorInteractionResult<Partial<ParseRawArguments<Args>>>> {
+        const args = this.args.filter(arg => arg.key in provided) as unknown as Argument[];
+        const values: Record<string, unknown> = {};
+        const errors = new Map<string, string | null>();
+        const attempts = new Map<string, number>();
+        const prompts: ArgumentResponse[] = [];
+        let current: ArgumentPromptInteraction = interaction;
+
+        const check = async (arg: Argument, value?: string): Promise<void> => {
+            const empty = arg.isEmpty(value, interaction);
+            if (empty && !arg.required) {
+                values[arg.key] = typeof arg.default === 'function'
+                    ? await arg.default(interaction, arg)
+                    : arg.default;
+                errors.delete(arg.key);
+                return;
+            }
+
+            const valid = !empty ? await arg.validate(value, interaction) : false;
+            if (valid && typeof valid !== 'string') {
+                values[arg.key] = await arg.parse(value ?? '', interaction);
+                errors.delete(arg.key);
+                return;
+            }
+
+            errors.set(arg.key, empty ? null : valid || `You provided an invalid ${arg.label}.`);
+        };
+
+        const result = (
+            cancelled: ArgumentCollectorResult['cancelled']
+        ): ArgumentCollectorInteractionResult<Partial<ParseRawArguments<Args>>> => ({
+            values: cancelled ? null : values as Partial<ParseRawArguments<Args>>,
+            cancelled,
+            prompts,
+            answers: [],
+            interaction: current,
+        });
+
+        /* eslint-disable no-await-in-loop */
+        for (const arg of args) await check(arg, provided[arg.key]);
+
+        while (errors.size > 0) {
+            const pending = args.filter(arg => errors.has(arg.key));
+            if (pending.some(arg => (attempts.get(arg.key) ?? 0) >= promptLimit)) return result('promptLimit');
+
+            const [first] = pending;
+            const selectable = isSelectable(first);
+            const prompted = selectable ? [first] : pending.filter(arg => !isSelectable(arg)).slice(0, 5);
+            const answer: InteractionPromptResult = selectable
+                ? await this.promptSelectMenu(current, first, errors.get(first.key) ?? null, prompts)
+                : await this.promptModal(interaction, current, prompted, errors, prompts);
+
+            current = answer.interaction;
+            if (answer.cancelled) return result(answer.cancelled);
+
+            for (const arg of prompted) {
+                attempts.set(arg.key, (attempts.get(arg.key) ?? 0) + 1);
+                await check(arg, answer.values?.[arg.key]);
+            }
+        }
+        /* eslint-enable no-await-in-loop */
+
+        return result(null);
+    }
+
+    /**
+     * Prompts the user to choose a value for an argument through a select menu
+     * @param interaction - Interaction to prompt with
+     * @param arg - Argument to prompt for, must have {@link Argument.oneOf Argument#oneOf} values
+     * @param error - Error message of the previous value, or `null` if it was empty
+     * @param prompts - Array to push the prompt messages into
+     */
+    protected async promptSelectMenu(
+        interaction: ArgumentPromptInteraction, arg: Argument, error: string | null, prompts: ArgumentResponse[]
+    ): Promise<InteractionPromptResult> {
+        const { id, user } = interaction;
+        const selectId = `${id}:${arg.key}`;
+        const cancelId = `${id}:cancel`;
+        const time = waitTime([arg]);
+
+        const embed = promptEmbed(time)
+            .setColor(error ? Colors.Red : Colors.Blue)
+            .addFields([{ name: arg.prompt, value: 'Choose a value from the menu below.' }]);
+        if (error) embed.setDescription(`**${error}**`);
+
+        const menu = new StringSelectMenuBuilder()
+            .setCustomId(selectId)
+            .setPlaceholder(arg.label.slice(0, 150))
+            .setOptions((arg.oneOf ?? []).map(value => ({
+                label: value.toString().slice(0, 100),
+                value: value.toString(),
+            })));
+
+        const message = await interaction.reply({
+            embeds: [embed],
+            components: [
+                new ActionRowBuilder<StringSelectMenuBuilder>().setComponents(menu),
+                new ActionRowBuilder<ButtonBuilder>().setComponents(cancelButton(cancelId)),
+            ],
+            ephemeral: true,
+            fetchReply: true,
+        });
+        prompts.push(message);
+
+        const answer = await message.awaitMessageComponent({
+            filter: i => i.user.id === user.id && [selectId, cancelId].includes(i.customId),
+            time,
+        }).catch(() => null) as CommandoMessageComponentInteraction | null;
+        await interaction.deleteReply().catch(() => null);
+
+        if (!answer) return { values: null, cancelled: 'time', interaction };
+        if (!answer.isStringSelectMenu()) return { values: null, cancelled: 'user', interaction: answer };
+        return { values: { [arg.key]: answer.values[0] }, cancelled: null, interaction: answer };
+    }
+
+    /**
+     * Prompts the user for the values of up to 5 arguments through a modal
+     * @param original - Interaction that the collector was triggered by
+     * @param interaction - Interaction to prompt with
+     * @param args - Arguments to prompt for
+     * @param errors - Error messages of the previous values, or `null` if they were empty, mapped by argument key
+     * @param prompts - Array to push the prompt messages into
+     */
+    protected async promptModal(
+        original: CommandoInteraction,
+        interaction: ArgumentPromptInteraction,
+        args: Argument[],
+        errors: Map<string, string | null>,
+        prompts: ArgumentResponse[]
+    ): Promise<InteractionPromptResult> {
+        const { user } = interaction;
+        const time = waitTime(args);
+
+        // A modal can't be shown in response to another modal, so the user has to press a button first
+        if (interaction.isModalSubmit()) {
+            const continueId = `${interaction.id}:continue`;
+            const cancelId = `${interaction.id}:cancel`;
+
+            const embed = promptEmbed(time)
+                .setColor(Colors.Red)
+                .setDescription('Some of the values you provided are invalid. Press **Continue** to try again.')
+                .addFields(args.map(arg => ({
+                    name: arg.label,
+                    value: errors.get(arg.key) ?? arg.prompt,
+                })));
+
+            const message = await interaction.reply({
+                embeds: [embed],
+                components: [new ActionRowBuilder<ButtonBuilder>().setComponents(
+                    new ButtonBuilder().setCustomId(continueId).setLabel('Continue').setStyle(ButtonStyle.Primary),
+                    cancelButton(cancelId)
+                )],
+                ephemeral: true,
+                fetchReply: true,
+            });
+            prompts.push(message);
+
+            const answer = await message.awaitMessageComponent({
+                filter: i => i.user.id === user.id && [continueId, cancelId].includes(i.customId),
+                time,
+            }).catch(() => null) as CommandoMessageComponentInteraction | null;
+            await interaction.deleteReply().catch(() => null);
+
+            if (!answer) return { values: null, cancelled: 'time', interaction };
+            if (answer.customId === cancelId) return { values: null, cancelled: 'user', interaction: answer };
+            return this.promptModal(original, answer, args, errors, prompts);
+        }
+
+        const modalId = `${interaction.id}:args`;
+        const modal = new ModalBuilder()
+            .setCustomId(modalId)
+            .setTitle(`/${original.commandName}`.slice(0, 45))
+            .setComponents(args.map(arg => new ActionRowBuilder<TextInputBuilder>().setComponents(
+                new TextInputBuilder()
+                    .setCustomId(arg.key)
+                    .setLabel(arg.label.slice(0, 45))
+                    .setPlaceholder((errors.get(arg.key) ?? arg.prompt).slice(0, 100))
+                    .setStyle(arg.infinite ? TextInputStyle.Paragraph : TextInputStyle.Short)
+                    .setRequired(arg.required)
+            )));
+
+        await interaction.showModal(modal);
+        const answer = await interaction.awaitModalSubmit({
+            filter: i => i.user.id === user.id && i.customId === modalId,
+            time,
+        }).catch(() => null) as CommandoModalSubmitInteraction | null;
+
+        if (!answer) return { values: null, cancelled: 'time', interaction };
+        return {
+            values: Object.fromEntries(args.map(arg => [arg.key, answer.fields.getTextInputValue(arg.key)])),
+            cancelled: null,
+            interaction: answer,
+        };
+    }
+}
+
+/**
+ * Whether an argument should be prompted through a select menu
+ * @param arg - The argument to check
+ */
+function isSelectable(arg: Argument): boolean {
+    return !!arg.oneOf && arg.oneOf.length > 0 && arg.oneOf.length <= 25 && !arg.infinite;
+}
+
+/**
+ * Gets the time to wait for an answer to a prompt (in milliseconds)
+ * @param args - The arguments being prompted for
+ */
+function waitTime(args: Argument[]): number {
+    const wait = Math.max(...args.map(arg => arg.wait > 0 ? arg.wait * 1000 : Infinity));
+    return Math.min(wait, maxInteractionWait);
+}
+
+/**
+ * Creates the base embed for an argument prompt
+ * @param time - How long the prompt waits for an answer (in milliseconds)
+ */
+function promptEmbed(time: number): EmbedBuilder {
+    return new EmbedBuilder().setFooter({
+        text: `The command will automatically be cancelled in ${Math.floor(time / 1000)} seconds.`,
+    });
+}
+
+/**
+ * Creates the button used to cancel an argument prompt
+ * @param customId - The custom ID of the button
+ */
+function cancelButton(customId: string): ButtonBuilder {
+    return new ButtonBuilder().setCustomId(customId).setLabel('Cancel').setStyle(ButtonStyle.Danger);
 }
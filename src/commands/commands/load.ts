@@ -2,7 +2,6 @@ import { access, constants } from 'fs';
 import { oneLine } from 'common-tags';
 import Command, { CommandContext } from '../base';
 import CommandoClient from '../../client';
-import CommandoMessage from '../../extensions/message';
 import { ParseRawArguments } from '../collector';
 import { ReadonlyArgumentInfo } from '../argument';
 
@@ -11,11 +10,11 @@ declare const require: NodeRequire;
 const args = [{
     key: 'command',
     prompt: 'Which command would you like to load?',
-    async validate(value: string | undefined, message: CommandoMessage): Promise<boolean | string> {
+    async validate(value: string | undefined, context: CommandContext): Promise<boolean | string> {
         if (!value) return false;
         const split = value.split(':');
         if (split.length !== 2) return false;
-        const { registry } = message.client;
+        const { registry } = context.client;
         if (registry.findCommands(value).length > 0) {
             return 'That command is already registered.';
         }
@@ -24,9 +23,9 @@ const args = [{
         access(cmdPath, constants.R_OK, err => valid = !!err);
         return valid;
     },
-    parse(value: string, message: CommandoMessage): Command {
+    parse(value: string, context: CommandContext): Command {
         const split = value.split(':');
-        const cmdPath = message.client.registry.resolveCommandPath(split[0], split[1]);
+        const cmdPath = context.client.registry.resolveCommandPath(split[0], split[1]);
         delete require.cache[cmdPath];
         return require(cmdPath);
     },
@@ -0,0 +1,92 @@
+import { oneLine, stripIndents } from 'common-tags';
+import CommandoClient from '../../client';
+import { ReadonlyArgumentInfo } from '../argument';
+import Command, { CommandContext } from '../base';
+import { ParseRawArguments } from '../collector';
+import SettingsMigrator, { SettingsMigrationConflict } from '../../providers/migrator';
+
+const args = [{
+    key: 'dryRun',
+    prompt: 'Would you like to only report what would be copied?',
+    type: 'boolean',
+    flag: true,
+    shortFlag: 'd',
+}, {
+    key: 'overwrite',
+    prompt: 'Would you like to replace the settings that already have a different value?',
+    type: 'boolean',
+    flag: true,
+    shortFlag: 'o',
+}] as const satisfies readonly ReadonlyArgumentInfo[];
+
+type RawArgs = typeof args;
+type ParsedArgs = ParseRawArguments<RawArgs>;
+
+/** Maximum amount of conflicts listed in the reply */
+const maxListed = 10;
+
+export default class MigrateSettingsCommand extends Command<boolean, RawArgs> {
+    public constructor(client: CommandoClient) {
+        super(client, {
+            name: 'migrate-settings',
+            aliases: ['migrate-provider'],
+            group: 'commands',
+            description: 'Copies all settings from the migration source provider into the current one.',
+            detailedDescription: oneLine`
+				The source provider is set with the \`settingsMigrationSource\` client option.
+				Use \`--dry-run\` to only report what would be copied, and \`--overwrite\` to replace the settings
+				that already have a different value. The providers are compared afterwards to verify the migration.
+				Only the bot owner(s) may use this command.
+			`,
+            examples: ['migrate-settings --dry-run', 'migrate-settings --overwrite'],
+            ownerOnly: true,
+            guarded: true,
+            args,
+        });
+    }
+
+    public async run(context: CommandContext, args: ParsedArgs): Promise<void> {
+        const { provider, options } = this.client;
+        const source = options.settingsMigrationSource;
+        if (!source) {
+            await context.reply('There is no settings migration source set.');
+            return;
+        }
+        if (!provider) {
+            await context.reply('There is no setting provider to migrate the settings into.');
+            return;
+        }
+        if (!source.client) {
+            await context.reply(`The migration source (\`${source.constructor.name}\`) isn't loaded.`);
+            return;
+        }
+
+        const migrator = new SettingsMigrator(source, provider);
+        const report = await migrator.migrate({
+            dryRun: !!args.dryRun,
+            overwrite: !!args.overwrite,
+        });
+        const { conflicts } = report;
+        const mismatches = report.dryRun ? null : migrator.verify();
+        const verification = mismatches && (mismatches.length === 0
+            ? '**Verification:** Both providers match.'
+            : `**Verification:** ${mismatches.length} settings don't match.`);
+
+        await context.reply(stripIndents`
+			__**Settings migration${report.dryRun ? ' (dry run)' : ''}**__
+			**From:** ${source.constructor.name}
+			**To:** ${provider.constructor.name}
+			**Guilds:** ${report.guilds}
+			**${report.dryRun ? 'Would copy' : 'Copied'}:** ${report.copied}
+			**Unchanged:** ${report.unchanged}
+			**Conflicts${report.dryRun || args.overwrite ? '' : ' (skipped)'}:** ${conflicts.length}
+			${conflicts.slice(0, maxListed).map(mapConflict).join('\n')}
+			${conflicts.length > maxListed ? `...and ${conflicts.length - maxListed} more` : ''}
+			${verification ?? ''}
+        `);
+    }
+}
+
+function mapConflict({ guild, key, source, target }: SettingsMigrationConflict): string {
+    return `\`${guild}\` ${key}: \`${JSON.stringify(target)}\` → \`${JSON.stringify(source)}\``;
+}
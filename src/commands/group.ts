@@ -1,8 +1,17 @@
-import { Collection, GuildResolvable } from 'discord.js';
+import {
+    APIApplicationCommandBasicOption,
+    APIApplicationCommandOption,
+    APIApplicationCommandSubcommandOption,
+    ApplicationCommandOptionType as SlashCommandOptionType,
+    ApplicationCommandType,
+    Collection,
+    GuildResolvable,
+    SlashCommandBuilder,
+} from 'discord.js';
 import CommandoClient from '../client';
 import { CommandoGuildResolvable } from '../discord.overrides';
 import CommandoGuild from '../extensions/guild';
-import Command from './base';
+import Command, { APISlashCommand } from './base';
 
 /** A group for commands. Whodathunkit? */
 export default class CommandGroup {
@@ -16,16 +25,20 @@ export default class CommandGroup {
     public commands: Collection<string, Command>;
     /** Whether or not this group is protected from being disabled */
     public guarded: boolean;
-    /** Whether the group is enabled globally */
-    protected _globalEnabled: boolean;
+    /**
+     * Whether the slash commands of the group's commands are registered as subcommands of a single slash command,
+     * named after the group's ID
+     */
+    public mergeSlashCommands: boolean;
 
     /**
      * @param client - The client the group is for
      * @param id - The ID for the group
      * @param name - The name of the group
      * @param guarded - Whether the group should be protected from disabling
+     * @param mergeSlashCommands - Whether the group's slash commands should be merged into a single one
      */
-    public constructor(client: CommandoClient, id: string, name = id, guarded = false) {
+    public constructor(client: CommandoClient, id: string, name = id, guarded = false, mergeSlashCommands = false) {
         if (!client) throw new Error('A client must be specified.');
         if (typeof id !== 'string') throw new TypeError('Group ID must be a string.');
         if (id !== id.toLowerCase()) throw new Error('Group ID must be lowercase.');
@@ -36,7 +49,7 @@ export default class CommandGroup {
         this.name = name ?? id;
         this.commands = new Collection();
         this.guarded = !!guarded;
-        this._globalEnabled = true;
+        this.mergeSlashCommands = !!mergeSlashCommands;
     }
 
     /**
@@ -51,7 +64,7 @@ export default class CommandGroup {
         if (typeof enabled === 'undefined') throw new TypeError('Enabled must not be undefined.');
         if (guarded) throw new Error('The group is guarded.');
         if (!guild) {
-            this._globalEnabled = enabled;
+            client.commandStatusStore.set('groups', 'global', this.id, !!enabled);
             if (!silent) client.emit('groupStatusChange', null, this, enabled);
             return;
         }
@@ -66,14 +79,76 @@ export default class CommandGroup {
      * @return Whether or not the group is enabled
      */
     public isEnabledIn(guild: CommandoGuildResolvable | null): boolean {
-        const { client, _globalEnabled, guarded } = this;
+        const { client, id, guarded } = this;
         if (guarded) return true;
-        if (!guild) return _globalEnabled;
+        if (!guild) return client.commandStatusStore.get('groups', 'global', id) ?? true;
         const commandoGuild = client.guilds.resolve(guild as GuildResolvable) as unknown as CommandoGuild | null;
         if (!commandoGuild) throw new Error(`Couldn't resolve guild ${guild}`);
         return commandoGuild.isGroupEnabled(this);
     }
 
+    /**
+     * Checks if a command's slash command is merged into the group's slash command. Commands with subcommand groups
+     * can't be merged, so they keep their own slash command.
+     * @param command - Command to check
+     */
+    public isSlashCommandMerged(command: Command): boolean {
+        const { slashCommand } = command;
+        if (!this.mergeSlashCommands || !slashCommand) return false;
+        return !slashCommand.options?.some(option => option.type === SlashCommandOptionType.SubcommandGroup);
+    }
+
+    /**
+     * Builds the slash command that holds the group's merged commands as subcommands. Commands with subcommands of
+     * their own become subcommand groups.
+     * @return The slash command, or `null` if there are no commands to merge
+     */
+    public buildSlashCommand(): APISlashCommand | null {
+        const commands = this.commands.filter(command => this.isSlashCommandMerged(command));
+        if (commands.size === 0) return null;
+        if (commands.size > 25) {
+            throw new RangeError(`Group "${this.id}" can't merge more than 25 slash commands.`);
+        }
+
+        const slashCommands = commands.map(command => command.slashCommand as APISlashCommand);
+        const slash = new SlashCommandBuilder()
+            .setName(this.id)
+            .setDescription(this.name)
+            .setDMPermission(slashCommands.some(command => command.dm_permission !== false))
+            .setNSFW(slashCommands.every(command => command.nsfw));
+
+        /* eslint-disable camelcase */
+        const options = slashCommands.map<APIApplicationCommandOption>(command => {
+            const data = {
+                name: command.name,
+                name_localizations: command.name_localizations,
+                description: command.description,
+                description_localizations: command.description_localizations,
+            };
+            const subcommands = command.options?.filter((option): option is APIApplicationCommandSubcommandOption =>
+                option.type === SlashCommandOptionType.Subcommand
+            ) ?? [];
+            if (subcommands.length > 0) return {
+                type: SlashCommandOptionType.SubcommandGroup,
+                ...data,
+                options: subcommands,
+            };
+            return {
+                type: SlashCommandOptionType.Subcommand,
+                ...data,
+                options: command.options as APIApplicationCommandBasicOption[] | undefined,
+            };
+        });
+        /* eslint-enable camelcase */
+
+        return {
+            ...slash.toJSON(),
+            type: ApplicationCommandType.ChatInput,
+            options,
+            deferEphemeral: false,
+        };
+    }
+
     /** Reloads all of the group's commands */
     public reload(): void {
         for (const command of this.commands.values()) command.reload();
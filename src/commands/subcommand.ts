@@ -0,0 +1,148 @@
+import { Collection, PermissionsString } from 'discord.js';
+import CommandoClient from '../client';
+import Util from '../util';
+import Command, { CommandArgumentsResolvable } from './base';
+import ArgumentCollector from './collector';
+
+/** The subcommand information */
+export interface SubcommandInfo {
+    /** The name of the subcommand (must be lowercase). */
+    name: string;
+    /** A short description of the subcommand. */
+    description: string;
+    /** The subcommand usage format string - will be automatically generated if not specified. */
+    format?: string;
+    /** A detailed description of the subcommand and its functionality. */
+    detailedDescription?: string;
+    /** Usage examples of the subcommand. */
+    examples?: string[];
+    /** Permissions required by the client to use the subcommand, on top of the command's ones. */
+    clientPermissions?: PermissionsString[];
+    /** Permissions required by the user to use the subcommand, on top of the command's ones. */
+    userPermissions?: PermissionsString[];
+    /** Arguments for the subcommand. Can't be used along with `subcommands`. */
+    args?: CommandArgumentsResolvable;
+    /**
+     * Subcommands of this subcommand, turning it into a subcommand group. Subcommand groups can't be nested,
+     * so these can't have subcommands of their own.
+     */
+    subcommands?: SubcommandInfo[];
+}
+
+/** A subcommand or subcommand group of a {@link Command} */
+export default class Subcommand {
+    /** Client that this subcommand is for */
+    declare public readonly client: CommandoClient;
+    /** Command or subcommand group this subcommand belongs to */
+    declare public readonly parent: Command | Subcommand;
+    /** Name of this subcommand */
+    public name: string;
+    /** Short description of the subcommand */
+    public description: string;
+    /** Usage format string of the subcommand */
+    public format: string | null;
+    /** Long description of the subcommand */
+    public details: string | null;
+    /** Example usage strings */
+    public examples: string[] | null;
+    /** Permissions required by the client to use the subcommand */
+    public clientPermissions: PermissionsString[] | null;
+    /** Permissions required by the user to use the subcommand */
+    public userPermissions: PermissionsString[] | null;
+    /** The argument collector for the subcommand */
+    public argsCollector: ArgumentCollector<CommandArgumentsResolvable> | null;
+    /** Subcommands of this subcommand, mapped by their name. Only present in subcommand groups. */
+    public subcommands: Collection<string, Subcommand>;
+
+    /**
+     * @param client - The client the subcommand is for
+     * @param parent - The command or subcommand group the subcommand belongs to
+     * @param info - The subcommand information
+     * @param promptLimit - Maximum number of times to prompt for a single argument
+     */
+    public constructor(
+        client: CommandoClient, parent: Command | Subcommand, info: SubcommandInfo, promptLimit = Infinity
+    ) {
+        Subcommand.validateInfo(info, parent instanceof Subcommand);
+
+        Object.defineProperty(this, 'client', { value: client });
+        Object.defineProperty(this, 'parent', { value: parent });
+
+        this.name = info.name;
+        this.description = info.description;
+        this.details = info.detailedDescription ?? null;
+        this.examples = info.examples ?? null;
+        this.clientPermissions = info.clientPermissions ?? null;
+        this.userPermissions = info.userPermissions ?? null;
+        this.argsCollector = info.args?.length
+            ? new ArgumentCollector<CommandArgumentsResolvable>(client, info.args, promptLimit)
+            : null;
+        this.subcommands = new Collection(info.subcommands?.map(subcommand =>
+            [subcommand.name, new Subcommand(client, this, subcommand, promptLimit)]
+        ));
+        this.format = info.format ?? (this.subcommands.size > 0
+            ? `[${[...this.subcommands.keys()].join('|')}]`
+            : this.argsCollector?.format ?? null);
+    }
+
+    /** The command this subcommand belongs to */
+    public get command(): Command {
+        const { parent } = this;
+        return parent instanceof Subcommand ? parent.command : parent;
+    }
+
+    /** The subcommand group this subcommand belongs to, if any */
+    public get group(): Subcommand | null {
+        const { parent } = this;
+        return parent instanceof Subcommand ? parent : null;
+    }
+
+    /** Names of the subcommand group (if any) and this subcommand, separated by a space */
+    public get path(): string {
+        const { group, name } = this;
+        return group ? `${group.name} ${name}` : name;
+    }
+
+    /**
+     * Validates the constructor parameters
+     * @param info - Info to validate
+     * @param inGroup - Whether the subcommand belongs to a subcommand group
+     */
+    protected static validateInfo(info: SubcommandInfo, inGroup: boolean): void {
+        if (typeof info !== 'object') throw new TypeError('Subcommand info must be an object.');
+        if (typeof info.name !== 'string') throw new TypeError('Subcommand name must be a string.');
+        if (info.name !== info.name.toLowerCase()) throw new Error('Subcommand name must be lowercase.');
+        if (info.name.replace(/ +/g, '') !== info.name) throw new Error('Subcommand name must not include spaces.');
+        if (typeof info.description !== 'string') throw new TypeError('Subcommand description must be a string.');
+        if ('format' in info && typeof info.format !== 'string') {
+            throw new TypeError('Subcommand format must be a string.');
+        }
+        if ('detailedDescription' in info && typeof info.detailedDescription !== 'string') {
+            throw new TypeError('Subcommand details must be a string.');
+        }
+        if ('examples' in info && (!Array.isArray(info.examples) || info.examples.some(ex => typeof ex !== 'string'))) {
+            throw new TypeError('Subcommand examples must be an Array of strings.');
+        }
+        if ('clientPermissions' in info) {
+            if (!Array.isArray(info.clientPermissions)) {
+                throw new TypeError('Subcommand clientPermissions must be an Array of permission key strings.');
+            }
+            const invalid = info.clientPermissions.find(perm => !Util.permissions[perm]);
+            if (invalid) throw new RangeError(`Invalid subcommand clientPermission: ${invalid}`);
+        }
+        if ('userPermissions' in info) {
+            if (!Array.isArray(info.userPermissions)) {
+                throw new TypeError('Subcommand userPermissions must be an Array of permission key strings.');
+            }
+            const invalid = info.userPermissions.find(perm => !Util.permissions[perm]);
+            if (invalid) throw new RangeError(`Invalid subcommand userPermission: ${invalid}`);
+        }
+        if ('args' in info && !Array.isArray(info.args)) throw new TypeError('Subcommand args must be an Array.');
+        if ('subcommands' in info) {
+            if (!Array.isArray(info.subcommands)) throw new TypeError('Subcommand subcommands must be an Array.');
+            if (inGroup) throw new Error('Subcommands of a subcommand group can\'t have subcommands.');
+            if (info.args?.length) throw new Error('Subcommand groups can\'t have args.');
+            if (info.subcommands.length > 25) throw new RangeError('Subcommand groups can have at most 25 subcommands.');
+        }
+    }
+}
@@ -6,6 +6,7 @@ import CommandoClient from '../../client';
 import { ParseRawArguments } from '../collector';
 import CommandGroup from '../group';
 import { ReadonlyArgumentInfo } from '../argument';
+import Subcommand from '../subcommand';
 
 const args = [{
     key: 'command',
@@ -25,8 +26,8 @@ export default class HelpCommand extends Command<boolean, RawArgs> {
             aliases: ['commands'],
             description: 'Displays a list of available commands, or detailed information for a specified command.',
             detailedDescription: oneLine`
-				The command may be part of a command name or a whole command name.
-				If it isn't specified, all available commands will be listed.
+				The command may be part of a command name or a whole command name, optionally followed by the name
+				of one of its subcommands. If it isn't specified, all available commands will be listed.
 			`,
             examples: ['help', 'help prefix'],
             guarded: true,
@@ -38,7 +39,8 @@ export default class HelpCommand extends Command<boolean, RawArgs> {
         const { author, client, channel, guild } = context;
         const { registry } = client;
         const groups = registry.groups;
-        const commands = registry.findCommands(command, false, context);
+        const [search, ...subcommandPath] = command.trim().split(/\s+/);
+        const commands = registry.findCommands(search, false, context);
         const showAll = command.toLowerCase() === 'all';
 
         if (command && !showAll) {
@@ -62,7 +64,10 @@ export default class HelpCommand extends Command<boolean, RawArgs> {
                 return;
             }
 
-            const help = mapCommandHelp(commands[0]);
+            const subcommand = subcommandPath.length > 0
+                ? commands[0].parseSubcommand(subcommandPath.join(' '))?.subcommand
+                : null;
+            const help = subcommand ? mapSubcommandHelp(subcommand) : mapCommandHelp(commands[0]);
             await sendDM(context, author, help);
             return;
         }
@@ -134,6 +139,15 @@ function mapCommandHelp(command: Command): string {
     **Format:** ${Command.usage(command.format ? ` ${command.format}` : '')}
     `;
 
+    if (command.subcommands.size > 0) {
+        const subcommands = [...command.subcommands.values()]
+            .flatMap(subcommand => subcommand.subcommands.size > 0 ? [...subcommand.subcommands.values()] : subcommand)
+            .map(subcommand =>
+                `**${subcommand.path}${subcommand.format ? ` ${subcommand.format}` : ''}:** ${subcommand.description}`
+            );
+        help += `\n**Subcommands:**\n${subcommands.join('\n')}`;
+    }
+
     if (command.aliases.length > 0) help += `\n**Aliases:** ${command.aliases.join(', ')}`;
 
     help += `\n**Group:** ${command.group.name} (\`${command.groupId}:${command.memberName}\`)`;
@@ -143,3 +157,17 @@ function mapCommandHelp(command: Command): string {
 
     return help;
 }
+
+function mapSubcommandHelp(subcommand: Subcommand): string {
+    const { command, path, format, description, details, examples } = subcommand;
+    let help = stripIndents`
+    __Subcommand **${command.name} ${path}**:__ ${description}
+
+    **Format:** ${command.usage(`${path}${format ? ` ${format}` : ''}`)}
+    `;
+
+    if (details) help += `\n**Details:** ${details}`;
+    if (examples) help += `\n**Examples:**\n${examples.join('\n')}`;
+
+    return help;
+}
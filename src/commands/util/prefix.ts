@@ -1,5 +1,8 @@
 import { stripIndents, oneLine } from 'common-tags';
 import CommandoClient from '../../client';
+import CommandoGuild from '../../extensions/guild';
+import SettingProvider, { DefaultSQLiteSettings } from '../../providers/base';
+import Util from '../../util';
 import { ReadonlyArgumentInfo } from '../argument';
 import Command, { CommandContext } from '../base';
 import { ParseRawArguments } from '../collector';
@@ -10,6 +13,24 @@ const args = [{
     type: 'string',
     max: 15,
     default: '',
+}, {
+    key: 'add',
+    prompt: 'Would you like to add the prefix alongside the current ones?',
+    type: 'boolean',
+    flag: true,
+    shortFlag: 'a',
+}, {
+    key: 'remove',
+    prompt: 'Would you like to remove the additional prefix?',
+    type: 'boolean',
+    flag: true,
+    shortFlag: 'r',
+}, {
+    key: 'channel',
+    prompt: 'Would you like to set the prefix of this channel only?',
+    type: 'boolean',
+    flag: true,
+    shortFlag: 'c',
 }] as const satisfies readonly ReadonlyArgumentInfo[];
 
 type RawArgs = typeof args;
@@ -20,40 +41,68 @@ export default class PrefixCommand extends Command<boolean, RawArgs> {
         super(client, {
             name: 'prefix',
             group: 'util',
-            description: 'Shows or sets the command prefix.',
-            format: 'prefix <prefix>',
+            description: 'Shows or sets the command prefixes.',
             detailedDescription: oneLine`
-				If no prefix is provided, the current prefix will be shown.
+				If no prefix is provided, the current prefixes will be shown.
 				If the prefix is "default", the prefix will be reset to the bot's default prefix.
 				If the prefix is "none", the prefix will be removed entirely, only allowing mentions to run commands.
-				Only administrators may change the prefix.
+				Use \`--add\` or \`--remove\` to manage additional prefixes that can be used alongside the main one,
+				and \`--channel\` to set a prefix that replaces all the others in the current channel.
+				Only administrators may change the prefixes.
 			`,
-            examples: ['prefix', 'prefix -', 'prefix omg!', 'prefix default', 'prefix none'],
+            examples: [
+                'prefix',
+                'prefix -',
+                'prefix omg!',
+                'prefix default',
+                'prefix none',
+                'prefix --add ?',
+                'prefix --remove ?',
+                'prefix --channel >',
+                'prefix --channel default',
+            ],
             args,
         });
     }
 
-    public async run(context: CommandContext, { prefix: passedPrefix }: ParsedArgs): Promise<void> {
-        const { author, guild, client, member } = context;
+    public async run(context: CommandContext, args: ParsedArgs): Promise<void> {
+        const { guild, client } = context;
+        const { prefix: passedPrefix } = args;
 
-        // Just output the prefix
+        // Just output the prefixes
         if (!passedPrefix) {
-            const currentPrefix = guild?.prefix || client.prefix;
-            await context.reply(stripIndents`
-				${currentPrefix ? `The command prefix is \`${currentPrefix}\`.` : 'There is no command prefix.'}
-				To run commands, use ${Command.usage('command')}.
-			`);
+            await this.showPrefixes(context);
             return;
         }
 
         // Check the user's permission before changing anything
-        if (guild) {
-            if (!member?.permissions.has('Administrator') && !client.isOwner(context.author)) {
-                await context.reply('Only administrators may change the command prefix.');
+        if (!await this.canChangePrefix(context)) return;
+
+        if (args.channel) {
+            await this.setChannelPrefix(context, passedPrefix);
+            return;
+        }
+
+        const target = guild ?? client;
+        if (args.add && args.remove) {
+            await context.reply('A prefix can\'t be added and removed at the same time.');
+            return;
+        }
+        if (args.add) {
+            if (target.prefixes.some(prefix => prefix.toLowerCase() === passedPrefix.toLowerCase())) {
+                await context.reply(`\`${passedPrefix}\` is already a command prefix.`);
                 return;
             }
-        } else if (!client.isOwner(author)) {
-            await context.reply('Only the bot owner(s) may change the global command prefix.');
+            target.addPrefix(passedPrefix);
+            await context.reply(`Added \`${passedPrefix}\` as a command prefix.`);
+            return;
+        }
+        if (args.remove) {
+            const removed = target.removePrefix(passedPrefix);
+            await context.reply(removed
+                ? `Removed the \`${passedPrefix}\` command prefix.`
+                : `\`${passedPrefix}\` isn't an additional command prefix.`
+            );
             return;
         }
 
@@ -64,6 +113,7 @@ export default class PrefixCommand extends Command<boolean, RawArgs> {
 
         if (guild) guild.prefix = newPrefix;
         else client.prefix = newPrefix;
+        await this.savePrefix(guild, newPrefix);
 
         const response = lowercase === 'default'
             ? `Reset the command prefix to the default (currently ${client.prefix ? `\`${client.prefix}\`` : 'no prefix'})`
@@ -73,4 +123,104 @@ export default class PrefixCommand extends Command<boolean, RawArgs> {
 
         await context.reply(`${response}. To run commands, use ${Command.usage('command')}.`);
     }
+
+    /**
+     * Replies with the command prefixes that can be used in the context's channel
+     * @param context - The command context
+     */
+    protected async showPrefixes(context: CommandContext): Promise<void> {
+        const { guild, client, channelId } = context;
+        const prefixes = (guild ?? client).prefixes.map(prefix => `\`${prefix}\``);
+        const channelPrefix = guild
+            ? this.provider?.['settings'].get(SettingProvider.getChannelScopeID(channelId))?.prefix
+            : null;
+
+        const prefixesLine = prefixes.length > 1
+            ? `The command prefixes are ${prefixes.join(', ')}.`
+            : prefixes.length === 1 ? `The command prefix is ${prefixes[0]}.` : 'There is no command prefix.';
+        const channelLine = Util.isNullish(channelPrefix)
+            ? ''
+            : `In this channel, ${channelPrefix ? `only \`${channelPrefix}\` can be used` : 'only mentions can be used'}.`;
+
+        await context.reply(stripIndents`
+			${prefixesLine}
+			${channelLine}
+			To run commands, use ${Command.usage('command')}.
+		`);
+    }
+
+    /**
+     * Sets or resets the prefix of the context's channel, which replaces all the others in it
+     * @param context - The command context
+     * @param passedPrefix - The prefix, "default" to reset it, or "none" to only allow mentions
+     */
+    protected async setChannelPrefix(context: CommandContext, passedPrefix: string): Promise<void> {
+        const { provider } = this;
+        if (!context.inGuild()) {
+            await context.reply('Channel prefixes can only be set in servers.');
+            return;
+        }
+        if (!provider) {
+            await context.reply('Channel prefixes require a setting provider.');
+            return;
+        }
+
+        const scope = SettingProvider.getChannelScopeID(context.channelId);
+        const lowercase = passedPrefix.toLowerCase();
+        if (lowercase === 'default') {
+            await provider.remove(scope, 'prefix');
+            await context.reply('Reset the command prefix of this channel to the server\'s prefixes.');
+            return;
+        }
+
+        const prefix = lowercase === 'none' ? '' : passedPrefix;
+        await provider.set(scope, 'prefix', prefix);
+        await provider.setChannelGuild(context.channelId, context.guildId);
+        await context.reply(prefix
+            ? `Set the command prefix of this channel to \`${prefix}\`.`
+            : 'Removed the command prefix of this channel entirely, only mentions can be used in it.'
+        );
+    }
+
+    /**
+     * Checks if the author of the context can change the prefixes, replying if they can't
+     * @param context - The command context
+     */
+    protected async canChangePrefix(context: CommandContext): Promise<boolean> {
+        const { author, guild, client, member } = context;
+        if (guild) {
+            if (member?.permissions.has('Administrator') || client.isOwner(author)) return true;
+            await context.reply('Only administrators may change the command prefix.');
+            return false;
+        }
+        if (client.isOwner(author)) return true;
+        await context.reply('Only the bot owner(s) may change the global command prefix.');
+        return false;
+    }
+
+    /** The client's setting provider, if any */
+    protected get provider(): SettingProvider<DefaultSQLiteSettings> | null {
+        return this.client.provider as SettingProvider<DefaultSQLiteSettings> | null;
+    }
+
+    /**
+     * Stores the prefix in the database, if connected
+     * @param guild - Guild the prefix is for, or `null` for the global prefix
+     * @param prefix - The new prefix, or `null` to remove it
+     */
+    protected async savePrefix(guild: CommandoGuild | null, prefix: string | null): Promise<void> {
+        if (!this.client.databaseStorage.isReady()) return;
+        const { prefixes } = guild ? guild.database : this.client.database;
+
+        const existing = await prefixes.fetch(guild ? {} : { global: true }, { force: true });
+        if (prefix === null) {
+            if (existing) await prefixes.delete(existing);
+            return;
+        }
+        if (existing) {
+            await prefixes.update(existing, { prefix });
+            return;
+        }
+        await prefixes.add({ global: !guild, prefix });
+    }
 }
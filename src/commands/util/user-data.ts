@@ -0,0 +1,123 @@
+import { stripIndents, oneLine } from 'common-tags';
+import { User } from 'discord.js';
+import Command, { CommandContext } from '../base';
+import CommandoClient from '../../client';
+import { ParseRawArguments } from '../collector';
+import { ReadonlyArgumentInfo } from '../argument';
+
+const args = [{
+    key: 'action',
+    prompt: 'Would you like to export or erase the data?',
+    type: 'string',
+    oneOf: ['export', 'erase'],
+}, {
+    key: 'user',
+    prompt: 'Which user would you like to manage the data of?',
+    type: 'user',
+    required: false,
+}, {
+    key: 'confirm',
+    prompt: 'Are you sure you want to erase the data?',
+    type: 'boolean',
+    flag: true,
+    shortFlag: 'c',
+}] as const satisfies readonly ReadonlyArgumentInfo[];
+
+type RawArgs = typeof args;
+type ParsedArgs = ParseRawArguments<RawArgs>;
+
+export default class UserDataCommand extends Command<boolean, RawArgs> {
+    public constructor(client: CommandoClient) {
+        super(client, {
+            name: 'user-data',
+            aliases: ['my-data'],
+            group: 'util',
+            description: 'Exports or erases the data the bot stores about you.',
+            detailedDescription: oneLine`
+				Use \`export\` to receive everything the bot stores about you as a JSON file in your DMs.
+				Use \`erase\` along with \`--confirm\` to permanently delete it. Moderation records are kept, but your ID
+				and tag are removed from them. Active punishments and sticky roles are kept as they are.
+				Only the bot owner(s) may manage the data of other users.
+			`,
+            examples: [
+                'user-data export',
+                'user-data erase --confirm',
+                'user-data export @User',
+            ],
+            throttling: {
+                usages: 1,
+                duration: 60,
+            },
+            args,
+        });
+    }
+
+    public async run(context: CommandContext, args: ParsedArgs): Promise<void> {
+        const { author, client } = context;
+        const { action, confirm } = args;
+        const user = args.user ?? author;
+
+        if (user.id !== author.id && !client.isOwner(author)) {
+            await context.reply('Only the bot owner(s) may manage the data of other users.');
+            return;
+        }
+
+        if (!client.databaseStorage.isReady()) {
+            await context.reply('The database isn\'t connected, so the user data can\'t be managed right now.');
+            return;
+        }
+
+        if (action === 'export') {
+            await this.exportData(context, user);
+            return;
+        }
+
+        if (!confirm) {
+            await context.reply(stripIndents`
+                This will permanently erase all the data stored about ${user.id === author.id ? 'you' : user.tag}.
+                Moderation records will be kept, but without their ID and tag.
+                Active punishments and sticky roles will be kept as they are.
+                Use ${this.usage(`erase${user.id === author.id ? '' : ` ${user.id}`} --confirm`)} to proceed.
+            `);
+            return;
+        }
+
+        const erasure = await client.userData.erase(user.id);
+        const deleted = Object.values(erasure.deleted).reduce((a, b) => a + b, 0);
+        const anonymized = Object.values(erasure.anonymized).reduce((a, b) => a + b, 0);
+        const kept = Object.values(erasure.kept).reduce((a, b) => a + b, 0);
+
+        await context.reply(stripIndents`
+            Erased the data stored about ${user.id === author.id ? 'you' : user.tag}:
+            Deleted ${deleted} document(s) and anonymized ${anonymized} moderation record(s).
+            Kept ${kept} active punishment(s) and sticky role(s).
+            ${erasure.settings ? 'Cleared the user settings.' : 'There were no user settings to clear.'}
+        `);
+    }
+
+    /**
+     * Sends the data stored about a user to the author in a DM
+     * @param context - The context the command is being run in
+     * @param user - The user to export the data of
+     */
+    protected async exportData(context: CommandContext, user: User): Promise<void> {
+        const { author, client } = context;
+        const data = await client.userData.export(user.id);
+
+        try {
+            await author.send({
+                content: `Here's all the data stored about ${user.id === author.id ? 'you' : user.tag}.`,
+                files: [{
+                    attachment: Buffer.from(JSON.stringify(data, null, 2)),
+                    name: `user-data-${user.id}.json`,
+                }],
+            });
+
+            if (!context.channel?.isDMBased()) {
+                await context.reply('Sent you a DM with the data.');
+            }
+        } catch (err) {
+            await context.reply('Unable to send you the data DM. You probably have DMs disabled.');
+        }
+    }
+}
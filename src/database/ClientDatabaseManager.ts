@@ -1,4 +1,4 @@
-import { Collection, LimitedCollection } from 'discord.js';
+import { Collection } from 'discord.js';
 import CommandoClient from '../client';
 import DatabaseManager from './DatabaseManager';
 import Schemas, {
@@ -9,12 +9,13 @@ import Schemas, {
     JSONIfySchema,
     PrefixSchema,
     ReminderSchema,
+    ThrottleSchema,
     TodoSchema,
 } from './Schemas';
 
 type SchemaKey = Exclude<keyof ClientDatabaseManager, 'client'>;
 
-/** The client's database manager (MongoDB) */
+/** The client's database manager */
 export default class ClientDatabaseManager {
     /** Client for this database */
     declare public readonly client: CommandoClient;
@@ -23,6 +24,7 @@ export default class ClientDatabaseManager {
     public faq: DatabaseManager<FaqSchema>;
     public prefixes: DatabaseManager<PrefixSchema>;
     public reminders: DatabaseManager<ReminderSchema>;
+    public throttles: DatabaseManager<ThrottleSchema>;
     public todo: DatabaseManager<TodoSchema>;
 
     /**
@@ -30,20 +32,23 @@ export default class ClientDatabaseManager {
      */
     public constructor(client: CommandoClient) {
         Object.defineProperty(this, 'client', { value: client });
+        const policies = client.options.databaseCache ?? {};
+        const storage = client.databaseStorage;
 
-        this.disabled = new DatabaseManager(Schemas.DisabledModel);
-        this.errors = new DatabaseManager(Schemas.ErrorsModel);
-        this.faq = new DatabaseManager(Schemas.FaqModel);
-        this.prefixes = new DatabaseManager(Schemas.PrefixesModel);
-        this.reminders = new DatabaseManager(Schemas.RemindersModel);
-        this.todo = new DatabaseManager(Schemas.TodoModel);
+        this.disabled = new DatabaseManager(Schemas.DisabledModel, undefined, policies.disabled, storage);
+        this.errors = new DatabaseManager(Schemas.ErrorsModel, undefined, policies.errors, storage);
+        this.faq = new DatabaseManager(Schemas.FaqModel, undefined, policies.faq, storage);
+        this.prefixes = new DatabaseManager(Schemas.PrefixesModel, undefined, policies.prefixes, storage);
+        this.reminders = new DatabaseManager(Schemas.RemindersModel, undefined, policies.reminders, storage);
+        this.throttles = new DatabaseManager(Schemas.ThrottlesModel, undefined, policies.throttles, storage);
+        this.todo = new DatabaseManager(Schemas.TodoModel, undefined, policies.todo, storage);
     }
 
     /**
      * Initializes the caching of this client's data
      * @param data - The data to assign to the client
      */
-    protected init(data: Collection<string, LimitedCollection<string, JSONIfySchema<AnySchema>>>): this {
+    protected init(data: Collection<string, Collection<string, JSONIfySchema<AnySchema>>>): this {
         for (const [name, schemaCollection] of data) {
             const dbManager = this[name as SchemaKey];
             if (!dbManager) continue;
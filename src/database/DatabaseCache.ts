@@ -0,0 +1,151 @@
+import { Collection } from 'discord.js';
+import ClientDatabaseManager from './ClientDatabaseManager';
+import GuildDatabaseManager from './GuildDatabaseManager';
+
+/** How a {@link DatabaseManager} caches its documents */
+export interface DatabaseCachePolicy {
+    /**
+     * Maximum amount of documents to cache. Once reached, the least recently used document is removed to cache a new
+     * one. `0` disables the cache, and `Infinity` removes the limit.
+     * @default 200
+     */
+    maxSize?: number;
+    /**
+     * Time in milliseconds after which a cached document is removed. `0` keeps them until they're evicted.
+     * @default 0
+     */
+    ttl?: number;
+}
+
+/** Cache policies of the database managers, mapped by their name in the client's or guilds' database managers */
+export type DatabaseCacheOptions = Partial<Record<
+    Exclude<keyof ClientDatabaseManager, 'client'> | Exclude<keyof GuildDatabaseManager, 'guild'>,
+    DatabaseCachePolicy
+>>;
+
+/** A {@link Collection} of database documents that follows a {@link DatabaseCachePolicy} */
+export default class DatabaseCache<V> extends Collection<string, V> {
+    /** Maximum amount of documents to cache */
+    public readonly maxSize: number;
+    /** Time in milliseconds after which a cached document is removed */
+    public readonly ttl: number;
+    /**
+     * Whether documents have been left out of or removed from the cache, so it may not hold all of them. Fetches
+     * query the database instead of the cache while this is `true`.
+     */
+    public partial: boolean;
+    /** Timeouts that remove the documents once they expire, mapped by document ID */
+    protected timeouts: Map<string, NodeJS.Timeout>;
+
+    /**
+     * @param policy - How to cache the documents
+     */
+    public constructor(policy: DatabaseCachePolicy = {}) {
+        super();
+        DatabaseCache.validatePolicy(policy);
+
+        this.maxSize = DatabaseCache.resolveMaxSize(policy);
+        this.ttl = policy.ttl ?? 0;
+        // A cache that can't hold any document never holds all of them
+        this.partial = this.maxSize === 0;
+        this.timeouts = new Map();
+    }
+
+    /**
+     * Obtains a document, marking it as the most recently used one
+     * @param key - ID of the document
+     */
+    public override get(key: string): V | undefined {
+        if (!this.has(key)) return undefined;
+        const value = super.get(key) as V;
+        // Re-inserting the entry moves it to the end, so the first one is always the least recently used
+        super.delete(key);
+        super.set(key, value);
+        return value;
+    }
+
+    /**
+     * Caches a document, removing the least recently used one if the cache is full
+     * @param key - ID of the document
+     * @param value - The document
+     */
+    public override set(key: string, value: V): this {
+        const { maxSize, ttl } = this;
+        if (maxSize === 0) {
+            this.partial = true;
+            return this;
+        }
+
+        if (this.has(key)) super.delete(key);
+        else if (this.size >= maxSize) {
+            const oldest = this.firstKey();
+            if (typeof oldest !== 'undefined') this.delete(oldest);
+            this.partial = true;
+        }
+
+        if (ttl > 0) {
+            this.cancelExpiration(key);
+            const timeout = setTimeout(() => {
+                this.delete(key);
+                this.partial = true;
+            }, ttl);
+            timeout.unref();
+            this.timeouts.set(key, timeout);
+        }
+        return super.set(key, value);
+    }
+
+    /**
+     * Removes a document from the cache
+     * @param key - ID of the document
+     */
+    public override delete(key: string): boolean {
+        this.cancelExpiration(key);
+        return super.delete(key);
+    }
+
+    /** Removes all the documents from the cache */
+    public override clear(): void {
+        for (const timeout of this.timeouts.values()) clearTimeout(timeout);
+        this.timeouts.clear();
+        super.clear();
+    }
+
+    /**
+     * Cancels the expiration of a document
+     * @param key - ID of the document
+     */
+    protected cancelExpiration(key: string): void {
+        const timeout = this.timeouts.get(key);
+        if (!timeout) return;
+        clearTimeout(timeout);
+        this.timeouts.delete(key);
+    }
+
+    public static override get [Symbol.species](): typeof Collection {
+        return Collection;
+    }
+
+    /**
+     * Resolves the maximum amount of documents a policy caches
+     * @param policy - The policy to resolve it from
+     */
+    public static resolveMaxSize(policy: DatabaseCachePolicy = {}): number {
+        return policy.maxSize ?? 200;
+    }
+
+    /**
+     * Validates a cache policy
+     * @param policy - Policy to validate
+     */
+    protected static validatePolicy(policy: DatabaseCachePolicy): void {
+        if (typeof policy !== 'object' || policy === null) throw new TypeError('Cache policy must be an object.');
+        const { maxSize, ttl } = policy;
+        if (typeof maxSize !== 'undefined' && (typeof maxSize !== 'number' || isNaN(maxSize) || maxSize < 0)) {
+            throw new RangeError('Cache policy maxSize must be a non-negative number.');
+        }
+        if (typeof ttl !== 'undefined' && (typeof ttl !== 'number' || !isFinite(ttl) || ttl < 0)) {
+            throw new RangeError('Cache policy ttl must be a non-negative finite number.');
+        }
+    }
+}
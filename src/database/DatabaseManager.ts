@@ -1,8 +1,11 @@
-import { Collection, LimitedCollection } from 'discord.js';
-import { isEqual } from 'lodash';
-import { Document, FilterQuery, UpdateQuery, UpdateWithAggregationPipeline } from 'mongoose';
+import { Collection } from 'discord.js';
+import { FilterQuery, ProjectionType, SortOrder, UpdateQuery, UpdateWithAggregationPipeline } from 'mongoose';
 import CommandoGuild from '../extensions/guild';
 import Util from '../util';
+import DatabaseCache, { DatabaseCachePolicy } from './DatabaseCache';
+import { matchesFilter } from './query';
+import DatabaseStorage from './storage/base';
+import MongoDatabaseStorage from './storage/mongo';
 import { ModelFrom, AnySchema, BaseSchema, JSONIfySchema } from './Schemas';
 
 export type QuerySchema<T extends AnySchema> = T extends { _id: string }
@@ -22,26 +25,59 @@ export interface DatabaseFetchOptions {
     force?: boolean;
 }
 
-/** A MongoDB database schema manager */
+export interface DatabaseFetchManyOptions<T extends AnySchema = AnySchema> extends DatabaseFetchOptions {
+    /** Maximum amount of documents to fetch */
+    limit?: number;
+    /** Amount of documents to skip, for offset pagination */
+    skip?: number;
+    /**
+     * ID of the last document of the previous page, for cursor pagination. Only documents with a greater ID are
+     * fetched, sorted by ID, so it can't be used along with `sort`.
+     */
+    after?: string;
+    /** How to sort the documents, mapped by field */
+    sort?: Partial<Record<keyof JSONIfySchema<T>, SortOrder>>;
+    /** Which fields to include or exclude. Partial documents are never cached. */
+    projection?: ProjectionType<JSONIfySchema<T>>;
+}
+
+export interface DatabaseIterateOptions<T extends AnySchema = AnySchema>
+    extends Pick<DatabaseFetchManyOptions<T>, 'projection' | 'sort'> {
+    /**
+     * Amount of documents to request from the database at a time
+     * @default 100
+     */
+    batchSize?: number;
+}
+
+/** A database schema manager, backed by a {@link DatabaseStorage} */
 export default class DatabaseManager<T extends AnySchema, IncludeId extends boolean = boolean> {
     /** Guild for this database */
     declare public readonly guild: CommandoGuild | null;
     /** The name of the schema this manager is for */
     public readonly Schema: ModelFrom<T, IncludeId>;
     /** The cache for this manager */
-    public readonly cache: LimitedCollection<string, JSONIfySchema<T>>;
+    public readonly cache: DatabaseCache<JSONIfySchema<T>>;
+    /** The storage the documents are kept in */
+    public readonly storage: DatabaseStorage;
 
     /**
      * @param schema - The schema of this manager
      * @param guild - The guild this manager is for
+     * @param cachePolicy - How to cache the documents
+     * @param storage - The storage the documents are kept in
      */
-    public constructor(schema: ModelFrom<T, IncludeId>, guild?: CommandoGuild) {
+    public constructor(
+        schema: ModelFrom<T, IncludeId>,
+        guild?: CommandoGuild,
+        cachePolicy?: DatabaseCachePolicy,
+        storage: DatabaseStorage = new MongoDatabaseStorage()
+    ) {
         Object.defineProperty(this, 'guild', { value: guild ?? null });
 
         this.Schema = schema;
-        this.cache = new LimitedCollection({
-            maxSize: 200,
-        });
+        this.cache = new DatabaseCache(cachePolicy);
+        this.storage = storage;
     }
 
     /**
@@ -54,23 +90,41 @@ export default class DatabaseManager<T extends AnySchema, IncludeId extends bool
             throw new TypeError('Document must be an object');
         }
 
-        const { guild, Schema } = this;
+        const { guild, Schema, storage } = this;
         if (guild) doc.guild ??= guild.id;
 
-        const rawDoc = await new Schema(doc).save() as Document<T>;
-        const added = Util.jsonifyDocument(rawDoc);
-        this.cache.set(added._id, added);
+        const added = await storage.insert(Schema, doc);
+        this.cacheDocument(added);
 
         return added;
     }
 
+    /**
+     * Add multiple documents to the database
+     * @param docs - The documents to add
+     * @returns The added documents
+     */
+    public async addMany(docs: Array<QuerySchema<T>>): Promise<Collection<string, JSONIfySchema<T>>> {
+        if (!Array.isArray(docs) || docs.some(doc => typeof doc !== 'object')) {
+            throw new TypeError('Documents must be an array of objects.');
+        }
+
+        const { guild, Schema, storage } = this;
+        if (guild) {
+            for (const doc of docs) doc.guild ??= guild.id;
+        }
+
+        const added = await storage.insertMany(Schema, docs);
+        return this.cacheDocuments(added);
+    }
+
     /**
      * Delete a single document from the database
      * @param doc - The document to delete or its ID
      * @returns The deleted document
      */
     public async delete(doc: JSONIfySchema<T> | string): Promise<JSONIfySchema<T>> {
-        const { cache, Schema } = this;
+        const { Schema, storage } = this;
 
         if (typeof doc !== 'string' && typeof doc !== 'object') {
             throw new TypeError('Document must be either an object or a document _id.');
@@ -89,23 +143,41 @@ export default class DatabaseManager<T extends AnySchema, IncludeId extends bool
             throw new TypeError('Document cannot be undefined or null.');
         }
 
-        cache.delete(doc._id.toString());
-        await Schema.deleteOne({ _id: doc._id });
+        await storage.delete(Schema, doc._id.toString());
+        this.uncacheDocument(doc._id.toString());
 
         return doc;
     }
 
     /**
-     * Update a single document of the database
+     * Delete every document matching a filter
+     * @param filter - The filter of the documents to delete
+     * @returns The deleted documents
+     */
+    public async deleteMany(filter: FilterQuery<QuerySchema<T>>): Promise<Collection<string, JSONIfySchema<T>>> {
+        if (typeof filter !== 'object' || filter === null) {
+            throw new TypeError('Filter must be an object.');
+        }
+
+        const { Schema, storage } = this;
+        const deleted = await storage.deleteMany(Schema, this.scopeFilter(filter));
+
+        const collection = new Collection(deleted.map(doc => [doc._id.toString(), doc]));
+        for (const id of collection.keys()) this.uncacheDocument(id);
+        return collection;
+    }
+
+    /**
+     * Atomically update a single document of the database
      * @param doc - The document to update or its ID
      * @param update - The update to apply
-     * @returns The updated document
+     * @returns The document as it was right after the update
      */
     public async update(
         doc: JSONIfySchema<T> | string,
         update: QuerySchema<T> | UpdateQuery<QuerySchema<T>> | UpdateWithAggregationPipeline
     ): Promise<JSONIfySchema<T>> {
-        const { cache, Schema } = this;
+        const { Schema, storage } = this;
 
         if (typeof doc !== 'string' && typeof doc !== 'object') {
             throw new TypeError('Document must be either an object or a document _id.');
@@ -127,14 +199,79 @@ export default class DatabaseManager<T extends AnySchema, IncludeId extends bool
             throw new TypeError('Document cannot be undefined or null.');
         }
 
-        await Schema.updateOne({ _id: doc._id }, update as UpdateWithAggregationPipeline);
-        const rawDoc = await Schema.findOne({ _id: doc._id }) as Document<T>;
-        const updatedDoc = Util.jsonifyDocument(rawDoc);
-        cache.set(updatedDoc._id.toString(), updatedDoc);
+        const updatedDoc = await storage.update(Schema, doc._id.toString(), update);
+        if (!updatedDoc) {
+            throw new Error(`Could not find document with _id "${doc._id}" in schema "${Schema.collection.name}".`);
+        }
+        this.cacheDocument(updatedDoc);
 
         return updatedDoc;
     }
 
+    /**
+     * Update every document matching a filter
+     * @param filter - The filter of the documents to update
+     * @param update - The update to apply
+     * @returns The updated documents
+     */
+    public async updateMany(
+        filter: FilterQuery<QuerySchema<T>>,
+        update: QuerySchema<T> | UpdateQuery<QuerySchema<T>> | UpdateWithAggregationPipeline
+    ): Promise<Collection<string, JSONIfySchema<T>>> {
+        if (typeof filter !== 'object' || filter === null) {
+            throw new TypeError('Filter must be an object.');
+        }
+        if (!Array.isArray(update) && typeof update !== 'object') {
+            throw new TypeError('Options must be either an object or an AggregationState array.');
+        }
+
+        const { Schema, storage } = this;
+        const updated = await storage.updateMany(Schema, this.scopeFilter(filter), update);
+        return this.cacheDocuments(updated);
+    }
+
+    /**
+     * Atomically update the first document matching a filter, or add a new one made from the filter and the update
+     * if none matched
+     * @param filter - The filter of the document to update
+     * @param update - The update to apply
+     * @returns The document as it was right after the update
+     */
+    public async upsert(
+        filter: FilterQuery<QuerySchema<T>>,
+        update: QuerySchema<T> | UpdateQuery<QuerySchema<T>> | UpdateWithAggregationPipeline
+    ): Promise<JSONIfySchema<T>> {
+        if (typeof filter !== 'object' || filter === null) {
+            throw new TypeError('Filter must be an object.');
+        }
+        if (!Array.isArray(update) && typeof update !== 'object') {
+            throw new TypeError('Options must be either an object or an AggregationState array.');
+        }
+
+        const { Schema, storage } = this;
+        const doc = await storage.upsert(Schema, this.scopeFilter(filter), update);
+        this.cacheDocument(doc);
+
+        return doc;
+    }
+
+    /**
+     * Run a function in a transaction, so every change it makes through the database managers of the client is
+     * committed together, or not at all if it throws. The cache only reflects the changes once the transaction is
+     * committed, so fetches within it should use the `force` option to see them.
+     * @param fn - The function to run
+     * @returns The result of the function
+     * @example
+     * const { moderations, active } = guild.database;
+     * await moderations.transaction(async () => {
+     *     await moderations.add({ _id: caseId, type: 'temp-ban', ...data });
+     *     await active.add({ _id: caseId, type: 'temp-ban', duration, ...data });
+     * });
+     */
+    public async transaction<R>(fn: () => Promise<R>): Promise<R> {
+        return await this.storage.transaction(fn);
+    }
+
     /**
      * Fetch a single document
      * @param filter - The ID or fetching filter for this document
@@ -144,74 +281,131 @@ export default class DatabaseManager<T extends AnySchema, IncludeId extends bool
         filter: FilterQuery<QuerySchema<T>> | string = {},
         options: DatabaseFetchOptions = {}
     ): Promise<JSONIfySchema<T> | null> {
-        const { cache, guild, Schema } = this;
+        const { cache, Schema, storage } = this;
         const { cache: shouldCache = true, force = false } = options;
 
         if (typeof filter === 'string') {
             const existing = cache.get(filter);
             if (existing && !force) return existing;
-            const rawData = await Schema.findById<Document<T>>(filter);
-            const data = Util.jsonifyDocument(rawData);
-            if (data && shouldCache) cache.set(data._id.toString(), data);
+            const data = await storage.findOne(Schema, filter);
+            if (data && shouldCache) this.cacheDocument(data);
             return data;
         }
 
-        if (cache.size === 0 && !force) return null;
+        if (cache.size === 0 && !cache.partial && !force) return null;
 
-        if (guild) filter.guild ??= guild.id;
-        const existing = cache.find(this.filterDocuments(filter));
+        const scoped = this.scopeFilter(filter);
+        const existing = cache.find(this.filterDocuments(scoped));
         if (existing && !force) return existing;
 
-        const rawDoc = await Schema.findOne<Document<T>>(filter);
-        const doc = Util.jsonifyDocument(rawDoc);
-        if (doc && shouldCache) cache.set(doc._id.toString(), doc);
+        const doc = await storage.findOne(Schema, scoped);
+        if (doc && shouldCache) this.cacheDocument(doc);
         return doc;
     }
 
     /**
-     * Fetch multiple documents
+     * Fetch multiple documents. The cache is only used when it holds all the documents and no pagination, sorting or
+     * projection is requested.
      * @param filter - The fetching filter for the documents
+     * @param options - The fetching options
      * @returns The fetched documents
      */
     public async fetchMany(
         filter: FilterQuery<QuerySchema<T>> = {},
-        options: DatabaseFetchOptions = {}
+        options: DatabaseFetchManyOptions<T> = {}
     ): Promise<Collection<string, JSONIfySchema<T>>> {
-        const { cache, guild, Schema } = this;
-        const { cache: shouldCache = true, force = false } = options;
-        if (cache.size === 0 && !force) return cache;
+        const { cache, Schema, storage } = this;
+        const { cache: shouldCache = true, force = false, limit, skip, after, sort, projection } = options;
+        const paginated = [limit, skip, after, sort, projection].some(option => typeof option !== 'undefined');
+        if (after && sort) {
+            throw new TypeError('The after option pages by ID, so it can\'t be used along with the sort option.');
+        }
 
-        if (guild) filter.guild ??= guild.id;
-        const filtered = cache.filter(this.filterDocuments(filter));
-        if (filtered.size !== 0 && !force) return filtered;
+        const scoped = this.scopeFilter(filter);
+        if (!force && !paginated && !cache.partial) {
+            if (cache.size === 0) return new Collection();
+            const filtered = cache.filter(this.filterDocuments(scoped));
+            if (filtered.size !== 0) return filtered;
+        }
 
-        const rawDocs = await Schema.find<Document<T>>(filter);
-        const fetched: Collection<string, JSONIfySchema<T>> = new LimitedCollection({
-            maxSize: 200,
+        // Cursor pagination needs the documents to be sorted by ID
+        // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+        const idSort = { _id: 1 } as DatabaseFetchManyOptions<T>['sort'];
+        const docs = await storage.find(Schema, after ? { ...scoped, _id: { $gt: after } } : scoped, {
+            limit,
+            skip,
+            sort: after ? idSort : sort,
+            projection,
         });
 
-        const jsonFiltered = rawDocs
-            .map(Util.jsonifyDocument)
-            .slice(0, 200);
-        for (const doc of jsonFiltered) {
+        const fetched = new Collection<string, JSONIfySchema<T>>();
+        for (const doc of docs) {
             const id = doc._id.toString();
-            if (!guild && doc.guild) continue;
-            if (!cache.get(id) && shouldCache) cache.set(id, doc);
+            if (!cache.has(id) && shouldCache && !projection) this.cacheDocument(doc);
             fetched.set(id, doc);
         }
         return fetched;
     }
 
-    /** Filtering function for fetching documents. May only be used in `Array.filter()` or `Collection.filter()` */
-    protected filterDocuments(filter: FilterQuery<Omit<JSONIfySchema<T>, 'createdAt' | 'updatedAt'>>) {
-        return (doc: JSONIfySchema<T>): boolean => {
-            const objKeys = Object.keys(filter).length;
-            if (objKeys === 0) return true;
-            const found = (Object.keys(filter) as Array<keyof typeof filter>).map(p =>
-                isEqual(doc[p as keyof JSONIfySchema<T>], filter[p])
-            );
-            const matchesAll = found.filter(b => b === true).length === objKeys;
-            return matchesAll;
-        };
+    /**
+     * Streams every document matching the filter straight from the database, without caching them
+     * @param filter - The fetching filter for the documents
+     * @param options - The iterating options
+     * @example
+     * for await (const moderation of guild.database.moderations.iterate({ userId })) {
+     *     console.log(moderation.reason);
+     * }
+     */
+    public async *iterate(
+        filter: FilterQuery<QuerySchema<T>> = {}, options: DatabaseIterateOptions<T> = {}
+    ): AsyncGenerator<JSONIfySchema<T>, void, undefined> {
+        const { Schema, storage } = this;
+        yield* storage.iterate(Schema, this.scopeFilter(filter), options);
+    }
+
+    /**
+     * Caches a document once the current transaction is committed, or right away if there's none
+     * @param doc - The document to cache
+     */
+    protected cacheDocument(doc: JSONIfySchema<T>): void {
+        this.storage.afterCommit(() => this.cache.set(doc._id.toString(), doc));
+    }
+
+    /**
+     * Caches multiple documents, like {@link DatabaseManager.cacheDocument DatabaseManager#cacheDocument} does
+     * @param docs - The documents to cache
+     * @returns The documents, mapped by ID
+     */
+    protected cacheDocuments(docs: Array<JSONIfySchema<T>>): Collection<string, JSONIfySchema<T>> {
+        const collection = new Collection(docs.map(doc => [doc._id.toString(), doc]));
+        for (const doc of collection.values()) this.cacheDocument(doc);
+        return collection;
+    }
+
+    /**
+     * Removes a document from the cache once the current transaction is committed, or right away if there's none
+     * @param id - ID of the document
+     */
+    protected uncacheDocument(id: string): void {
+        this.storage.afterCommit(() => this.cache.delete(id));
+    }
+
+    /**
+     * Restricts a filter to the documents of this manager, since the client's managers share their collections with
+     * the guilds' ones
+     * @param filter - The filter to restrict, which is left untouched
+     * @returns A copy of the filter, restricted to this manager
+     */
+    protected scopeFilter(filter: FilterQuery<QuerySchema<T>>): FilterQuery<QuerySchema<T>> {
+        const { guild } = this;
+        return { ...filter, guild: filter.guild ?? (guild ? guild.id : { $exists: false }) };
+    }
+
+    /**
+     * Filtering function for fetching documents from the cache, matching them like the database would.
+     * May only be used in `Array.filter()` or `Collection.filter()`
+     */
+    protected filterDocuments(filter: FilterQuery<QuerySchema<T>>) {
+        return (doc: JSONIfySchema<T>): boolean => matchesFilter(doc, filter as Record<string, unknown>);
     }
 }
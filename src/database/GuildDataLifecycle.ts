@@ -0,0 +1,234 @@
+import { Collection, ShardClientUtil } from 'discord.js';
+import CommandoClient from '../client';
+import CommandoGuild from '../extensions/guild';
+import Schemas, { BaseSchema, JSONIfySchema, ModelFrom } from './Schemas';
+import Util from '../util';
+import DatabaseCache, { DatabaseCacheOptions } from './DatabaseCache';
+
+type GuildSchema = BaseSchema & { guild?: string };
+type GuildModel = ModelFrom<GuildSchema>;
+
+/** Maximum delay of a timeout, in milliseconds */
+const maxTimeoutDelay = 2 ** 31 - 1;
+
+/** A scheduled deletion of the data of a guild */
+export interface GuildDataPurge {
+    /** When the data will be deleted */
+    purgeAt: Date;
+    /** Timeout that deletes the data, or waits for the next timeout if the deletion is too far away */
+    timeout: NodeJS.Timeout;
+}
+
+/**
+ * Loads the data of the guilds the client joins, and deletes the data of the guilds that remove it once
+ * {@link CommandoClientOptions.guildDataRetention CommandoClientOptions#guildDataRetention} has passed.
+ *
+ * Scheduled deletions are stored in the `guild-purges` collection. Once the database is ready, they're scheduled again
+ * for the guilds of this shard the client isn't in anymore, and the data of those without one is scheduled to be
+ * deleted, counting the retention time from then.
+ */
+export default class GuildDataLifecycle {
+    /** Client this lifecycle is for */
+    declare public readonly client: CommandoClient;
+    /** Time in milliseconds to keep the data of a guild after it removes the client, or `null` to keep it forever */
+    public readonly retention: number | null;
+    /** Whether the database finished caching, so joining guilds may load their data */
+    protected databaseReady: boolean;
+    /** The scheduled deletions, mapped by guild ID */
+    protected purges: Map<string, GuildDataPurge>;
+
+    /**
+     * @param client - The client this lifecycle is for
+     */
+    public constructor(client: CommandoClient) {
+        Object.defineProperty(this, 'client', { value: client });
+
+        const retention = client.options.guildDataRetention ?? null;
+        if (retention !== null && (typeof retention !== 'number' || isNaN(retention) || retention < 0)) {
+            throw new RangeError('Guild data retention must be a non-negative number or null.');
+        }
+
+        this.retention = retention;
+        this.databaseReady = false;
+        this.purges = new Map();
+
+        client.once('databaseReady', readyClient => {
+            this.databaseReady = true;
+            this.scheduleOrphanedPurges(readyClient).catch((err: Error) => {
+                client.emit('warn', `Couldn't schedule the deletion of the data of departed guilds: ${err}`);
+            });
+        });
+    }
+
+    /**
+     * Loads the data of a guild into its database managers, cancelling the deletion of its data if it was scheduled
+     * @param guild - The guild to load the data of
+     * @emits {@link CommandoClientEvents.guildDataLoad guildDataLoad}
+     */
+    public async load(guild: CommandoGuild): Promise<void> {
+        const { client } = this;
+        this.cancelPurge(guild.id);
+        if (!this.databaseReady) return;
+
+        const { databaseStorage, options } = client;
+        const schemas = Object.values(Schemas) as GuildModel[];
+        const schemasData = await Promise.all(schemas.map(schema => {
+            // One more document than the cache may hold is fetched, so it knows it's partial
+            const name = Util.kebabToCamelCase(schema.collection.name) as keyof DatabaseCacheOptions;
+            const maxSize = DatabaseCache.resolveMaxSize(options.databaseCache?.[name]);
+            if (maxSize === 0) return [];
+            return databaseStorage.find(schema, { guild: guild.id }, isFinite(maxSize) ? { limit: maxSize + 1 } : {});
+        }));
+
+        const data = new Collection<string, Collection<string, JSONIfySchema<GuildSchema>>>();
+        for (let i = 0; i < schemas.length; i++) {
+            const schemaName = Util.kebabToCamelCase(schemas[i].collection.name);
+            data.set(schemaName, new Collection(schemasData[i].map(doc => [doc._id, doc])));
+        }
+
+        guild.database['init'](data);
+        client.databases.set(guild.id, guild.database);
+
+        const prefix = guild.database.prefixes.cache.first();
+        if (prefix) guild['_prefix'] = prefix.prefix;
+
+        client.emit('guildDataLoad', guild);
+    }
+
+    /**
+     * Schedules the deletion of the data of a guild, replacing the previous one if any
+     * @param guildId - ID of the guild
+     * @param delay - Time in milliseconds to wait before deleting the data
+     * @returns When the data will be deleted, or `null` if it's kept forever
+     */
+    public schedulePurge(guildId: string, delay: number | null = this.retention): Date | null {
+        this.cancelPurge(guildId);
+        if (delay === null) return null;
+
+        const purgeAt = new Date(Date.now() + delay);
+        this.setPurgeTimeout(guildId, purgeAt);
+        this.storePurgeDate(guildId, purgeAt);
+        return purgeAt;
+    }
+
+    /**
+     * Cancels the scheduled deletion of the data of a guild
+     * @param guildId - ID of the guild
+     * @returns Whether a deletion was scheduled
+     */
+    public cancelPurge(guildId: string): boolean {
+        const purge = this.purges.get(guildId);
+        if (!purge) return false;
+        clearTimeout(purge.timeout);
+        this.storePurgeDate(guildId, null);
+        return this.purges.delete(guildId);
+    }
+
+    /**
+     * Obtains when the data of a guild will be deleted
+     * @param guildId - ID of the guild
+     * @returns The date, or `null` if no deletion is scheduled
+     */
+    public getPurgeDate(guildId: string): Date | null {
+        return this.purges.get(guildId)?.purgeAt ?? null;
+    }
+
+    /**
+     * Deletes all the documents and settings of a guild right away, along with the settings of the channels recorded
+     * to be in it
+     * @param guildId - ID of the guild
+     * @emits {@link CommandoClientEvents.guildDataPurge guildDataPurge}
+     */
+    public async purge(guildId: string): Promise<void> {
+        const { client } = this;
+        this.cancelPurge(guildId);
+
+        const { databaseStorage, provider } = client;
+        const schemas = Object.values(Schemas) as GuildModel[];
+        await Promise.all([
+            ...schemas.map(schema => databaseStorage.deleteMany(schema, { guild: guildId })),
+            databaseStorage.delete(Schemas.GuildPurgesModel, guildId),
+        ]);
+        if (provider) {
+            const scopes = [guildId, ...provider.getChannelScopes(guildId)];
+            await Promise.all(scopes.map(scope => provider.clear(scope)));
+        }
+        client.databases.delete(guildId);
+
+        client.emit('guildDataPurge', guildId);
+    }
+
+    /**
+     * Sets the timeout of a scheduled deletion. Deletions further away than a timeout may wait are split into
+     * multiple timeouts.
+     * @param guildId - ID of the guild
+     * @param purgeAt - When to delete the data
+     */
+    protected setPurgeTimeout(guildId: string, purgeAt: Date): void {
+        const delay = Math.max(purgeAt.getTime() - Date.now(), 0);
+        const timeout = setTimeout(() => {
+            if (delay > maxTimeoutDelay) {
+                this.setPurgeTimeout(guildId, purgeAt);
+                return;
+            }
+            this.purge(guildId).catch((err: Error) => {
+                this.client.emit('warn', `Couldn't delete the data of guild ${guildId}: ${err}`);
+            });
+        }, Math.min(delay, maxTimeoutDelay));
+        timeout.unref();
+
+        this.purges.set(guildId, { purgeAt, timeout });
+    }
+
+    /**
+     * Stores when the data of a guild will be deleted, so it's scheduled again after a restart
+     * @param guildId - ID of the guild
+     * @param purgeAt - When the data will be deleted, or `null` to remove the stored date
+     */
+    protected storePurgeDate(guildId: string, purgeAt: Date | null): void {
+        const { databaseStorage } = this.client;
+        if (!databaseStorage.isReady()) return;
+
+        Promise.resolve()
+            .then(() => purgeAt
+                ? databaseStorage.upsert(Schemas.GuildPurgesModel, { _id: guildId }, { purgeAt })
+                : databaseStorage.delete(Schemas.GuildPurgesModel, guildId)
+            )
+            .catch((err: Error) => {
+                this.client.emit('warn', `Couldn't store when the data of guild ${guildId} will be deleted: ${err}`);
+            });
+    }
+
+    /**
+     * Schedules the deletion of the data of the guilds of this shard the client isn't in anymore, reusing the stored
+     * dates of the deletions that were already scheduled
+     * @param client - Client whose database is ready
+     */
+    protected async scheduleOrphanedPurges(client: CommandoClient<true>): Promise<void> {
+        if (this.retention === null) return;
+
+        const { databaseStorage, guilds, shard } = client;
+        const schemas = Object.values(Schemas) as GuildModel[];
+        const [storedPurges, ...schemasData] = await Promise.all([
+            databaseStorage.find(Schemas.GuildPurgesModel, {}),
+            ...schemas.map(schema =>
+                databaseStorage.find(schema, { guild: { $exists: true } }, { projection: { guild: 1 } })
+            ),
+        ]);
+
+        const purgeDates = new Map(storedPurges.map(doc => [doc._id, new Date(doc.purgeAt)]));
+        const guildIds = new Set([...schemasData.flat().map(doc => doc.guild), ...purgeDates.keys()]);
+        for (const guildId of guildIds) {
+            if (!guildId || this.purges.has(guildId)) continue;
+            if (shard && !shard.ids.includes(ShardClientUtil.shardIdForGuildId(guildId, shard.count))) continue;
+            const purgeAt = purgeDates.get(guildId);
+
+            if (guilds.cache.has(guildId)) {
+                if (purgeAt) this.storePurgeDate(guildId, null);
+                continue;
+            }
+            if (purgeAt) this.setPurgeTimeout(guildId, purgeAt);
+            else this.schedulePurge(guildId);
+        }
+    }
+}
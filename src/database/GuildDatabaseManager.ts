@@ -1,4 +1,4 @@
-import { Collection, LimitedCollection } from 'discord.js';
+import { Collection } from 'discord.js';
 import CommandoGuild from '../extensions/guild';
 import DatabaseManager from './DatabaseManager';
 import schemas, {
@@ -21,7 +21,7 @@ import schemas, {
 
 type SchemaKey = Exclude<keyof GuildDatabaseManager, 'guild'>;
 
-/** A guilds' database manager (MongoDB) */
+/** A guilds' database manager */
 export default class GuildDatabaseManager {
     /** Guild for this database */
     declare public readonly guild: CommandoGuild;
@@ -45,27 +45,29 @@ export default class GuildDatabaseManager {
      */
     public constructor(guild: CommandoGuild) {
         Object.defineProperty(this, 'guild', { value: guild });
+        const policies = guild.client.options.databaseCache ?? {};
+        const storage = guild.client.databaseStorage;
 
-        this.active = new DatabaseManager(schemas.ActiveModel, guild);
-        this.afk = new DatabaseManager(schemas.AfkModel, guild);
-        this.disabled = new DatabaseManager(schemas.DisabledModel, guild);
-        this.mcIps = new DatabaseManager(schemas.McIpsModel, guild);
-        this.moderations = new DatabaseManager(schemas.ModerationsModel, guild);
-        this.modules = new DatabaseManager(schemas.ModulesModel, guild);
-        this.prefixes = new DatabaseManager(schemas.PrefixesModel, guild);
-        this.polls = new DatabaseManager(schemas.PollsModel, guild);
-        this.reactionRoles = new DatabaseManager(schemas.ReactionRolesModel, guild);
-        this.rules = new DatabaseManager(schemas.RulesModel, guild);
-        this.setup = new DatabaseManager(schemas.SetupModel, guild);
-        this.stickyRoles = new DatabaseManager(schemas.StickyRolesModel, guild);
-        this.welcome = new DatabaseManager(schemas.WelcomeModel, guild);
+        this.active = new DatabaseManager(schemas.ActiveModel, guild, policies.active, storage);
+        this.afk = new DatabaseManager(schemas.AfkModel, guild, policies.afk, storage);
+        this.disabled = new DatabaseManager(schemas.DisabledModel, guild, policies.disabled, storage);
+        this.mcIps = new DatabaseManager(schemas.McIpsModel, guild, policies.mcIps, storage);
+        this.moderations = new DatabaseManager(schemas.ModerationsModel, guild, policies.moderations, storage);
+        this.modules = new DatabaseManager(schemas.ModulesModel, guild, policies.modules, storage);
+        this.prefixes = new DatabaseManager(schemas.PrefixesModel, guild, policies.prefixes, storage);
+        this.polls = new DatabaseManager(schemas.PollsModel, guild, policies.polls, storage);
+        this.reactionRoles = new DatabaseManager(schemas.ReactionRolesModel, guild, policies.reactionRoles, storage);
+        this.rules = new DatabaseManager(schemas.RulesModel, guild, policies.rules, storage);
+        this.setup = new DatabaseManager(schemas.SetupModel, guild, policies.setup, storage);
+        this.stickyRoles = new DatabaseManager(schemas.StickyRolesModel, guild, policies.stickyRoles, storage);
+        this.welcome = new DatabaseManager(schemas.WelcomeModel, guild, policies.welcome, storage);
     }
 
     /**
      * Initializes the caching of this guild's data
      * @param data - The data to assign to the guild
      */
-    protected init(data: Collection<string, LimitedCollection<string, JSONIfySchema<AnySchema>>>): this {
+    protected init(data: Collection<string, Collection<string, JSONIfySchema<AnySchema>>>): this {
         for (const [name, schemaCollection] of data) {
             const dbManager = this[name as SchemaKey];
             if (!dbManager) continue;
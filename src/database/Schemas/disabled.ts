@@ -7,6 +7,8 @@ export interface DisabledSchema extends BaseSchemaWithoutTimestamps {
     global: boolean;
     commands: string[];
     groups: string[];
+    enabledCommands?: string[] | undefined;
+    enabledGroups?: string[] | undefined;
 }
 
 const DisabledModel = model<DocumentFrom<DisabledSchema>>('disabled', new Schema({
@@ -14,6 +16,8 @@ const DisabledModel = model<DocumentFrom<DisabledSchema>>('disabled', new Schema
     global: Boolean,
     commands: [String],
     groups: [String],
+    enabledCommands: [String],
+    enabledGroups: [String],
 }), 'disabled');
 
 export default DisabledModel;
@@ -0,0 +1,14 @@
+import { model, Schema } from 'mongoose';
+import { BaseSchemaWithoutTimestamps, DocumentFrom } from './base';
+
+export interface GuildPurgeSchema extends Omit<BaseSchemaWithoutTimestamps, '_id'> {
+    readonly _id: string;
+    purgeAt: Date;
+}
+
+const GuildPurgesModel = model<DocumentFrom<GuildPurgeSchema, true>>('guild-purges', new Schema({
+    _id: String,
+    purgeAt: Date,
+}), 'guild-purges');
+
+export default GuildPurgesModel;
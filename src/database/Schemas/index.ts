@@ -12,6 +12,7 @@ import AfkModel, { AfkSchema } from './afk';
 import DisabledModel, { DisabledSchema } from './disabled';
 import ErrorsModel, { ErrorSchema } from './errors';
 import FaqModel, { FaqSchema } from './faq';
+import GuildPurgesModel, { GuildPurgeSchema } from './guild-purges';
 import McIpsModel, { McIpSchema } from './mc-ips';
 import ModerationsModel, { ModerationSchema, ModerationType, TimeBasedModerationType } from './moderations';
 import ModulesModel, { GuildAuditLog, GuildModule, ModuleSchema } from './modules';
@@ -22,6 +23,7 @@ import RemindersModel, { ReminderSchema } from './reminders';
 import RulesModel, { RuleSchema } from './rules';
 import SetupModel, { SetupSchema } from './setup';
 import StickyRolesModel, { StickyRoleSchema } from './sticky-roles';
+import ThrottlesModel, { ThrottleSchema } from './throttles';
 import TodoModel, { TodoSchema } from './todo';
 import WelcomeModel, { WelcomeSchema } from './welcome';
 
@@ -50,6 +52,7 @@ export type AnySchema<IncludeId extends boolean = boolean> = Partial<
     | DisabledSchema
     | ErrorSchema
     | FaqSchema
+    | GuildPurgeSchema
     | McIpSchema
     | ModerationSchema
     | ModuleSchema
@@ -60,6 +63,7 @@ export type AnySchema<IncludeId extends boolean = boolean> = Partial<
     | RuleSchema
     | SetupSchema
     | StickyRoleSchema
+    | ThrottleSchema
     | TodoSchema
     | WelcomeSchema
 >
@@ -73,6 +77,7 @@ export {
     DisabledSchema,
     ErrorSchema,
     FaqSchema,
+    GuildPurgeSchema,
     McIpSchema,
     ModerationSchema,
     ModuleSchema,
@@ -83,6 +88,7 @@ export {
     RuleSchema,
     SetupSchema,
     StickyRoleSchema,
+    ThrottleSchema,
     TodoSchema,
     WelcomeSchema,
 };
@@ -93,6 +99,7 @@ const Schemas = {
     DisabledModel,
     ErrorsModel,
     FaqModel,
+    GuildPurgesModel,
     McIpsModel,
     ModerationsModel,
     ModulesModel,
@@ -103,6 +110,7 @@ const Schemas = {
     RulesModel,
     SetupModel,
     StickyRolesModel,
+    ThrottlesModel,
     TodoModel,
     WelcomeModel,
 } as const;
@@ -0,0 +1,18 @@
+import { model, Schema } from 'mongoose';
+import { BaseSchemaWithoutTimestamps, DocumentFrom } from './base';
+
+export interface ThrottleSchema extends Omit<BaseSchemaWithoutTimestamps, '_id'> {
+    readonly _id: string;
+    start: number;
+    usages: number;
+    expiresAt: Date;
+}
+
+const ThrottlesModel = model<DocumentFrom<ThrottleSchema, true>>('throttles', new Schema({
+    _id: String,
+    start: Number,
+    usages: Number,
+    expiresAt: { type: Date, expires: 0 },
+}));
+
+export default ThrottlesModel;
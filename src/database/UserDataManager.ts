@@ -0,0 +1,241 @@
+import { Snowflake } from 'discord.js';
+import CommandoClient from '../client';
+import DatabaseManager from './DatabaseManager';
+import Schemas, { AnySchema, JSONIfySchema, ModelFrom } from './Schemas';
+import SettingProvider from '../providers/base';
+
+type UserSchema = AnySchema;
+type UserModel = ModelFrom<UserSchema>;
+
+/** A schema that stores data about users */
+interface UserDataSchema {
+    /** Name of the database managers of the schema */
+    name: string;
+    /** Model of the schema */
+    Schema: UserModel;
+    /** Fields that store the ID of a user */
+    fields: string[];
+    /**
+     * Fields that store the tag of the user whose ID is in another field, mapped by that field. Documents of schemas
+     * with these are anonymized instead of deleted.
+     */
+    anonymize?: Record<string, string>;
+    /** Whether the documents are kept untouched, since they enforce punishments the user could evade otherwise */
+    keep?: boolean;
+}
+
+/** Everything stored about a user */
+export interface UserDataExport {
+    /** ID of the user */
+    user: Snowflake;
+    /** When the data was exported */
+    exportedAt: Date;
+    /** The documents that store data about the user, mapped by the name of their database managers */
+    documents: Record<string, Array<JSONIfySchema<UserSchema>>>;
+    /** The settings of the user's scope in the setting provider, if any */
+    settings: object | null;
+}
+
+/** What was erased about a user */
+export interface UserDataErasure {
+    /** ID of the user */
+    user: Snowflake;
+    /** Amount of deleted documents, mapped by the name of their database managers */
+    deleted: Record<string, number>;
+    /** Amount of anonymized documents, mapped by the name of their database managers */
+    anonymized: Record<string, number>;
+    /** Amount of documents kept untouched, mapped by the name of their database managers */
+    kept: Record<string, number>;
+    /** Whether the settings of the user's scope in the setting provider were cleared */
+    settings: boolean;
+}
+
+/** ID that replaces the one of an erased user in the documents that are anonymized */
+const anonymousId = '0';
+/** Tag that replaces the one of an erased user in the documents that are anonymized */
+const anonymousTag = 'Deleted User';
+
+/** The schemas that store data about users */
+const userDataSchemas: UserDataSchema[] = [{
+    name: 'active',
+    Schema: Schemas.ActiveModel as unknown as UserModel,
+    fields: ['userId'],
+    keep: true,
+}, {
+    name: 'afk',
+    Schema: Schemas.AfkModel as unknown as UserModel,
+    fields: ['user'],
+}, {
+    name: 'moderations',
+    Schema: Schemas.ModerationsModel as unknown as UserModel,
+    fields: ['userId', 'modId'],
+    anonymize: { userId: 'userTag', modId: 'modTag' },
+}, {
+    name: 'reminders',
+    Schema: Schemas.RemindersModel as unknown as UserModel,
+    fields: ['user'],
+}, {
+    name: 'stickyRoles',
+    Schema: Schemas.StickyRolesModel as unknown as UserModel,
+    fields: ['user'],
+    keep: true,
+}, {
+    name: 'todo',
+    Schema: Schemas.TodoModel as unknown as UserModel,
+    fields: ['user'],
+}];
+
+/**
+ * Exports and erases the data stored about users, across every guild and the client's setting provider.
+ * Moderation records are kept for the guilds' sake, but the erased user's ID and tag are replaced in them. Active
+ * punishments and sticky roles are kept untouched, so they can't be evaded by erasing the data.
+ */
+export default class UserDataManager {
+    /** Client this manager is for */
+    declare public readonly client: CommandoClient;
+
+    /**
+     * @param client - The client this manager is for
+     */
+    public constructor(client: CommandoClient) {
+        Object.defineProperty(this, 'client', { value: client });
+    }
+
+    /**
+     * Collects everything stored about a user
+     * @param userId - ID of the user
+     */
+    public async export(userId: Snowflake): Promise<UserDataExport> {
+        const { databaseStorage, provider } = this.client;
+        this.checkStorage();
+        const schemasData = await Promise.all(userDataSchemas.map(({ Schema, fields }) =>
+            databaseStorage.find(Schema, UserDataManager.userFilter(fields, userId))
+        ));
+
+        const documents: Record<string, Array<JSONIfySchema<UserSchema>>> = {};
+        for (let i = 0; i < userDataSchemas.length; i++) {
+            documents[userDataSchemas[i].name] = schemasData[i];
+        }
+
+        const settings = provider?.['settings'].get(SettingProvider.getUserScopeID(userId)) ?? null;
+
+        return {
+            user: userId,
+            exportedAt: new Date(),
+            documents,
+            settings,
+        };
+    }
+
+    /**
+     * Erases everything stored about a user, anonymizing the moderation records and keeping the active punishments and
+     * sticky roles instead. The documents are erased in a single transaction if the database supports them, and the
+     * caches of the database managers are updated once it's committed.
+     * @param userId - ID of the user
+     */
+    public async erase(userId: Snowflake): Promise<UserDataErasure> {
+        const { databaseStorage, provider } = this.client;
+        this.checkStorage();
+        const erasure: UserDataErasure = {
+            user: userId,
+            deleted: {},
+            anonymized: {},
+            kept: {},
+            settings: false,
+        };
+
+        const eraseDocuments = async (): Promise<void> => {
+            for (const { name, Schema, fields, anonymize, keep } of userDataSchemas) {
+                if (keep) {
+                    // eslint-disable-next-line no-await-in-loop
+                    const kept = await databaseStorage.find(Schema, UserDataManager.userFilter(fields, userId));
+                    erasure.kept[name] = kept.length;
+                    continue;
+                }
+
+                if (!anonymize) {
+                    // eslint-disable-next-line no-await-in-loop
+                    const deleted = await databaseStorage.deleteMany(Schema, UserDataManager.userFilter(fields, userId));
+                    erasure.deleted[name] = deleted.length;
+                    databaseStorage.afterCommit(() => this.uncacheDocuments(Schema, deleted));
+                    continue;
+                }
+
+                const anonymized = new Map<string, JSONIfySchema<UserSchema>>();
+                for (const [idField, tagField] of Object.entries(anonymize)) {
+                    // eslint-disable-next-line no-await-in-loop
+                    const updated = await databaseStorage.updateMany(Schema, { [idField]: userId }, {
+                        $set: { [idField]: anonymousId, [tagField]: anonymousTag },
+                    });
+                    for (const doc of updated) anonymized.set(doc._id.toString(), doc);
+                }
+                erasure.anonymized[name] = anonymized.size;
+                databaseStorage.afterCommit(() => this.recacheDocuments(Schema, [...anonymized.values()]));
+            }
+        };
+
+        if (await databaseStorage.supportsTransactions()) await databaseStorage.transaction(eraseDocuments);
+        else await eraseDocuments();
+
+        const scopeId = SettingProvider.getUserScopeID(userId);
+        if (provider?.['settings'].has(scopeId)) {
+            await provider.clear(scopeId);
+            erasure.settings = true;
+        }
+
+        return erasure;
+    }
+
+    /** Throws if the database storage isn't connected, so the data can't be read nor written */
+    protected checkStorage(): void {
+        if (!this.client.databaseStorage.isReady()) {
+            throw new Error('The database storage isn\'t connected, so the user data can\'t be managed.');
+        }
+    }
+
+    /**
+     * Obtains the database managers of a schema, across the client and every guild
+     * @param Schema - Model of the schema
+     */
+    protected getManagers(Schema: UserModel): Array<DatabaseManager<UserSchema>> {
+        const { database, databases } = this.client;
+        return [database, ...databases.values()].flatMap(db => Object.values(db).filter(
+            (manager): manager is DatabaseManager<UserSchema> => manager instanceof DatabaseManager
+                && manager.Schema === Schema
+        ));
+    }
+
+    /**
+     * Removes deleted documents from the caches of their schema's database managers
+     * @param Schema - Model of the schema
+     * @param docs - The deleted documents
+     */
+    protected uncacheDocuments(Schema: UserModel, docs: Array<JSONIfySchema<UserSchema>>): void {
+        for (const manager of this.getManagers(Schema)) {
+            for (const doc of docs) manager.cache.delete(doc._id.toString());
+        }
+    }
+
+    /**
+     * Replaces updated documents in the caches of their schema's database managers, if they were cached
+     * @param Schema - Model of the schema
+     * @param docs - The updated documents
+     */
+    protected recacheDocuments(Schema: UserModel, docs: Array<JSONIfySchema<UserSchema>>): void {
+        for (const manager of this.getManagers(Schema)) {
+            for (const doc of docs) {
+                const id = doc._id.toString();
+                if (manager.cache.has(id)) manager.cache.set(id, doc);
+            }
+        }
+    }
+
+    /**
+     * Creates a filter that matches the documents storing the ID of a user in any of the fields
+     * @param fields - Fields that store the ID of a user
+     * @param userId - ID of the user
+     */
+    protected static userFilter(fields: string[], userId: Snowflake): Record<string, unknown> {
+        return { $or: fields.map(field => ({ [field]: userId })) };
+    }
+}
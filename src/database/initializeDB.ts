@@ -1,8 +1,8 @@
-import { Collection, LimitedCollection } from 'discord.js';
-import mongoose, { Document } from 'mongoose';
+import { Collection } from 'discord.js';
 import requireAll from 'require-all';
 import CommandoClient from '../client';
 import Schemas, { BaseSchema, JSONIfySchema, ModelFrom } from './Schemas';
+import DatabaseCache, { DatabaseCacheOptions } from './DatabaseCache';
 import Util from '../util';
 import { CommandoGuildManager } from '../discord.overrides';
 // import { toJSONOptions } from './DatabaseManager';
@@ -17,32 +17,16 @@ type GeneralSchema = BaseSchema & { guild?: string };
 type GeneralModel = ModelFrom<GeneralSchema>;
 
 /**
- * Connects to MongoDB, caches the database and loads all client modules.
+ * Connects to the database storage, caches the database and loads all client modules.
  * @param client - The client the database is for.
  */
 export default async function initializeDB(client: CommandoClient<true>): Promise<void> {
-    const connected = await connectDB(client);
+    const connected = await client.databaseStorage.connect();
     if (!connected) return;
     await cacheDB(client);
     await loadModules(client);
 }
 
-/**
- * Connects the client to the database.
- * @param client - The client this handlers is for.
- */
-async function connectDB(client: CommandoClient<true>): Promise<boolean> {
-    const { mongoDbURI } = client.options;
-    const { MONGO_DB_URI } = process.env;
-    const uri = mongoDbURI ?? MONGO_DB_URI;
-
-    if (!uri) return false;
-    mongoose.set('strictQuery', true);
-    await mongoose.connect(uri, { keepAlive: true });
-    client.emit('debug', 'Established database connection');
-    return true;
-}
-
 /**
  * Caches all the DB data.
  * @param client - The client this handlers is for.
@@ -51,39 +35,75 @@ async function cacheDB(client: CommandoClient<true>): Promise<void> {
     const { database, databases, guilds } = client;
 
     const schemas = Object.values(Schemas) as GeneralModel[];
+    const guildIds = new Set((guilds as unknown as CommandoGuildManager).cache.keys());
     // Resolves all promises at once after getting all data.
-    const schemasData = await Promise.all(schemas.map(schema => schema.find<Document<GeneralSchema>>()));
+    const schemasData = await Promise.all(schemas.map(schema => fetchCachedDocuments(client, schema, guildIds)));
 
-    const data = new Collection<string, LimitedCollection<string, JSONIfySchema<GeneralSchema>>>();
+    // The cache policy of each manager decides how many of the documents are kept
+    const data = new Collection<string, Collection<string, JSONIfySchema<GeneralSchema>>>();
     for (let i = 0; i < schemas.length; i++) {
         const schemaName = Util.kebabToCamelCase(schemas[i].collection.name);
-        const entries = schemasData[i].map<[string, JSONIfySchema<GeneralSchema>]>(doc =>
-            [doc._id?.toString() ?? '', Util.jsonifyDocument(doc)]
-        );
-
-        const documents = new LimitedCollection({
-            maxSize: 200,
-        }, entries);
+        const entries = schemasData[i].map<[string, JSONIfySchema<GeneralSchema>]>(doc => [doc._id, doc]);
 
-        data.set(schemaName, documents);
+        data.set(schemaName, new Collection(entries));
     }
 
-    const clientData = data.mapValues(coll =>
-        coll.filter(doc => typeof doc.guild !== 'string') as LimitedCollection<string, JSONIfySchema<GeneralSchema>>
-    );
+    const clientData = data.mapValues(coll => coll.filter(doc => typeof doc.guild !== 'string'));
     database['init'](clientData);
 
     for (const guild of (guilds as unknown as CommandoGuildManager).cache.values()) {
-        const guildData = data.mapValues(coll =>
-            coll.filter(doc => doc.guild === guild.id) as LimitedCollection<string, JSONIfySchema<GeneralSchema>>
-        );
+        const guildData = data.mapValues(coll => coll.filter(doc => doc.guild === guild.id));
         guild.database['init'](guildData);
         databases.set(guild.id, guild.database);
     }
+    applyPrefixes(client);
     client.emit('debug', 'Database caching process finished');
     client.emit('databaseReady', client);
 }
 
+/**
+ * Fetches the documents of a schema that will be cached. At most one more document than the cache policy of the
+ * schema's managers allows is kept for the client and each guild, so their caches know they're partial.
+ * @param client - The client the database is for.
+ * @param schema - The schema to fetch the documents of.
+ * @param guildIds - IDs of the guilds the client is in.
+ */
+async function fetchCachedDocuments(
+    client: CommandoClient<true>, schema: GeneralModel, guildIds: Set<string>
+): Promise<Array<JSONIfySchema<GeneralSchema>>> {
+    const name = Util.kebabToCamelCase(schema.collection.name) as keyof DatabaseCacheOptions;
+    const maxSize = DatabaseCache.resolveMaxSize(client.options.databaseCache?.[name]);
+    if (maxSize === 0) return [];
+
+    const docs: Array<JSONIfySchema<GeneralSchema>> = [];
+    const counts = new Map<string, number>();
+    for await (const doc of client.databaseStorage.iterate(schema, {})) {
+        const owner = typeof doc.guild === 'string' ? doc.guild : 'global';
+        const count = counts.get(owner) ?? 0;
+        if ((owner !== 'global' && !guildIds.has(owner)) || count > maxSize) continue;
+
+        counts.set(owner, count + 1);
+        docs.push(doc);
+    }
+    return docs;
+}
+
+/**
+ * Applies the global and guild prefixes stored in the database.
+ * @param client - The client this handlers is for.
+ */
+function applyPrefixes(client: CommandoClient<true>): void {
+    const { database, guilds } = client;
+
+    const globalPrefix = database.prefixes.cache.find(doc => doc.global);
+    if (globalPrefix) client['_prefix'] = globalPrefix.prefix;
+
+    for (const guild of (guilds as unknown as CommandoGuildManager).cache.values()) {
+        const guildPrefix = guild.database.prefixes.cache.first();
+        if (guildPrefix) guild['_prefix'] = guildPrefix.prefix;
+    }
+}
+
 /**
  * Loads all the client's modules.
  * @param client - The client this handlers is for.
@@ -0,0 +1,175 @@
+import { isEqual, isPlainObject } from 'lodash';
+import Util from '../util';
+
+/**
+ * Checks whether a document matches a MongoDB filter, so cached documents can be queried like the database is.
+ * Supports dotted paths (which also look into arrays of sub-documents) and the `$and`, `$or`, `$nor`, `$eq`, `$ne`,
+ * `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin`, `$exists`, `$regex`, `$not`, `$size`, `$all` and `$elemMatch`
+ * operators.
+ * @param doc - The document to check
+ * @param filter - The filter to match
+ */
+export function matchesFilter(doc: object, filter: Record<string, unknown>): boolean {
+    return Object.entries(filter).every(([key, condition]) => {
+        const subFilters = condition as Array<Record<string, unknown>>;
+        switch (key) {
+            case '$and':
+                return subFilters.every(subFilter => matchesFilter(doc, subFilter));
+            case '$or':
+                return subFilters.some(subFilter => matchesFilter(doc, subFilter));
+            case '$nor':
+                return !subFilters.some(subFilter => matchesFilter(doc, subFilter));
+        }
+        if (key.startsWith('$')) throw new RangeError(`Unsupported query operator: ${key}.`);
+        return matchesCondition(resolvePath(doc, key), condition);
+    });
+}
+
+/**
+ * Checks whether a value matches the condition of a filter
+ * @param value - The value to check
+ * @param condition - The expected value, or an object of query operators
+ */
+export function matchesCondition(value: unknown, condition: unknown): boolean {
+    if (!isOperatorObject(condition)) return matchesValue(value, condition);
+
+    return Object.entries(condition).every(([operator, operand]) => {
+        switch (operator) {
+            case '$eq':
+                return matchesValue(value, operand);
+            case '$ne':
+                return !matchesValue(value, operand);
+            case '$gt':
+                return matchesComparison(value, operand, compared => compared > 0);
+            case '$gte':
+                return matchesComparison(value, operand, compared => compared >= 0);
+            case '$lt':
+                return matchesComparison(value, operand, compared => compared < 0);
+            case '$lte':
+                return matchesComparison(value, operand, compared => compared <= 0);
+            case '$in':
+                return (operand as unknown[]).some(item => matchesValue(value, item));
+            case '$nin':
+                return !(operand as unknown[]).some(item => matchesValue(value, item));
+            case '$exists':
+                return (typeof value !== 'undefined') === !!operand;
+            case '$regex':
+                return matchesValue(value, new RegExp(
+                    operand instanceof RegExp ? operand.source : operand as string,
+                    (condition.$options as string | undefined) ?? (operand instanceof RegExp ? operand.flags : '')
+                ));
+            case '$options':
+                // Used along with $regex
+                return true;
+            case '$not':
+                return !matchesCondition(value, operand);
+            case '$size':
+                return Array.isArray(value) && value.length === operand;
+            case '$all':
+                return Array.isArray(value) && (operand as unknown[]).every(item => matchesValue(value, item));
+            case '$elemMatch':
+                return Array.isArray(value) && value.some(element => isOperatorObject(operand)
+                    ? matchesCondition(element, operand)
+                    : typeof element === 'object' && element !== null
+                    && matchesFilter(element, operand as Record<string, unknown>)
+                );
+            default:
+                throw new RangeError(`Unsupported query operator: ${operator}.`);
+        }
+    });
+}
+
+/**
+ * Checks whether a value is an object of query or update operators
+ * @param value - The value to check
+ */
+export function isOperatorObject(value: unknown): value is Record<string, unknown> {
+    return isPlainObject(value) && Object.keys(value as object).some(key => key.startsWith('$'));
+}
+
+/**
+ * Compares two values, placing nullish ones first. Dates are compared by time and IDs by their string.
+ * @param a - The first value
+ * @param b - The second value
+ */
+export function compareValues(a: unknown, b: unknown): number {
+    const left = normalizeValue(a) as number | string;
+    const right = normalizeValue(b) as number | string;
+
+    if (left === right) return 0;
+    if (Util.isNullish(left)) return -1;
+    if (Util.isNullish(right)) return 1;
+    return left < right ? -1 : 1;
+}
+
+/**
+ * Obtains the value at a dotted path of a document. Paths going through an array of sub-documents resolve to the
+ * array of their values, like MongoDB does.
+ * @param doc - The document to get the value from
+ * @param path - The dotted path of the value
+ */
+function resolvePath(doc: unknown, path: string): unknown {
+    let value = doc;
+    for (const key of path.split('.')) {
+        if (Array.isArray(value) && !/^\d+$/.test(key)) {
+            value = value.flatMap(element => {
+                const resolved = resolvePath(element, key);
+                return typeof resolved === 'undefined' ? [] : [resolved];
+            }).flat();
+            continue;
+        }
+        if (typeof value !== 'object' || value === null) return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+}
+
+/**
+ * Checks whether a value equals the expected one, or is an array that contains it. Regular expressions match
+ * strings instead.
+ * @param value - The value to check
+ * @param expected - The expected value
+ */
+function matchesValue(value: unknown, expected: unknown): boolean {
+    if (expected instanceof RegExp) {
+        return matchesAny(value, item => typeof item === 'string' && expected.test(item));
+    }
+    if (expected === null && typeof value === 'undefined') return true;
+    if (isEqual(normalizeValue(value), normalizeValue(expected))) return true;
+    return Array.isArray(value) && value.some(item => isEqual(normalizeValue(item), normalizeValue(expected)));
+}
+
+/**
+ * Checks whether a value, or any element of it if it's an array, passes a comparison with the operand
+ * @param value - The value to check
+ * @param operand - The value to compare it with
+ * @param test - Checks the result of {@link compareValues}
+ */
+function matchesComparison(value: unknown, operand: unknown, test: (compared: number) => boolean): boolean {
+    if (Util.isNullish(operand)) return false;
+    return matchesAny(value, item =>
+        !Util.isNullish(item) && typeof normalizeValue(item) === typeof normalizeValue(operand)
+        && test(compareValues(item, operand))
+    );
+}
+
+/**
+ * Checks whether a value, or any element of it if it's an array, passes a test
+ * @param value - The value to check
+ * @param test - The test to pass
+ */
+function matchesAny(value: unknown, test: (item: unknown) => boolean): boolean {
+    return test(value) || (Array.isArray(value) && value.some(test));
+}
+
+/**
+ * Turns dates into their time and IDs into their string, so they can be compared
+ * @param value - The value to normalize
+ */
+function normalizeValue(value: unknown): unknown {
+    if (value instanceof Date) return value.getTime();
+    if (typeof value === 'object' && value !== null && 'toHexString' in value) {
+        return (value as { toHexString(): string }).toHexString();
+    }
+    return value;
+}
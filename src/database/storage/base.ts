@@ -0,0 +1,205 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Awaitable } from 'discord.js';
+import { ClientSession, FilterQuery, UpdateQuery, UpdateWithAggregationPipeline } from 'mongoose';
+import CommandoClient from '../../client';
+import { DatabaseFetchManyOptions, DatabaseIterateOptions, QuerySchema } from '../DatabaseManager';
+import { AnySchema, JSONIfySchema, ModelFrom } from '../Schemas';
+
+/** Options for {@link DatabaseStorage.find DatabaseStorage#find} */
+export type DatabaseStorageFindOptions<T extends AnySchema = AnySchema> = Pick<
+    DatabaseFetchManyOptions<T>, 'limit' | 'projection' | 'skip' | 'sort'
+>;
+
+/** An update that may be applied to a document */
+export type DatabaseStorageUpdate<T extends AnySchema = AnySchema> =
+    | QuerySchema<T>
+    | UpdateQuery<QuerySchema<T>>
+    | UpdateWithAggregationPipeline;
+
+/** A transaction started by {@link DatabaseStorage.transaction DatabaseStorage#transaction} */
+export interface DatabaseTransaction {
+    /** Functions to run once the transaction is committed */
+    onCommit: Array<() => void>;
+    /** The MongoDB session of the transaction, if stored in MongoDB */
+    session?: ClientSession;
+    /** Functions that undo the changes of the transaction, in the order they were made, if stored in memory */
+    undo?: Array<() => void>;
+    /** Writes waiting for the transaction to be committed, if stored in SQLite */
+    writes?: Array<() => void>;
+}
+
+/**
+ * Stores the documents of the {@link DatabaseManager}s. Documents are always handed out with the
+ * {@link JSONIfySchema} shape, no matter how they are stored.
+ */
+export default abstract class DatabaseStorage {
+    /** Client that is using the storage */
+    declare public readonly client: CommandoClient;
+    /** Keeps track of the transaction each async context is running in */
+    protected transactions: AsyncLocalStorage<DatabaseTransaction>;
+
+    public constructor() {
+        this.transactions = new AsyncLocalStorage();
+    }
+
+    /**
+     * Initializes the storage. {@link CommandoClient} will automatically call this when it's constructed.
+     * @param client - Client that will be using the storage
+     */
+    public init(client: CommandoClient): void {
+        Object.defineProperty(this, 'client', { value: client });
+    }
+
+    /**
+     * Connects to the database. {@link CommandoClient} will automatically call this once all guilds are ready.
+     * @returns Whether the connection was established, so the documents can be cached
+     */
+    public abstract connect(): Awaitable<boolean>;
+
+    /** Whether the storage is connected and documents may be read and written */
+    public abstract isReady(): boolean;
+
+    /**
+     * Whether the database supports transactions. When it doesn't, {@link DatabaseStorage.transaction transaction}
+     * throws, so changes that should be atomic have to be made without one.
+     */
+    public supportsTransactions(): Awaitable<boolean> {
+        return true;
+    }
+
+    /**
+     * Runs a function in a transaction, so every change it makes through this storage is committed together, or
+     * not at all if it throws. Transactions started within another one join it.
+     * @param fn - The function to run
+     * @returns The result of the function
+     */
+    public async transaction<R>(fn: () => Promise<R>): Promise<R> {
+        if (this.transactions.getStore()) return await fn();
+
+        const transaction: DatabaseTransaction = { onCommit: [] };
+        const result = await this.runTransaction(transaction, () => this.transactions.run(transaction, fn));
+        for (const callback of transaction.onCommit) callback();
+        return result;
+    }
+
+    /**
+     * Runs a function once the current transaction is committed, or right away if there's none
+     * @param callback - The function to run
+     */
+    public afterCommit(callback: () => void): void {
+        const transaction = this.transactions.getStore();
+        if (transaction) transaction.onCommit.push(callback);
+        else callback();
+    }
+
+    /**
+     * Stores a new document
+     * @param Schema - Model of the schema the document is for
+     * @param doc - The document to store
+     * @returns The stored document
+     */
+    public abstract insert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, doc: QuerySchema<T>
+    ): Awaitable<JSONIfySchema<T>>;
+
+    /**
+     * Atomically updates a document, obtaining it as it was right after the update
+     * @param Schema - Model of the schema the document is for
+     * @param id - ID of the document
+     * @param update - The update to apply
+     * @returns The updated document, or `null` if it doesn't exist
+     */
+    public abstract update<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string, update: DatabaseStorageUpdate<T>
+    ): Awaitable<JSONIfySchema<T> | null>;
+
+    /**
+     * Deletes a document
+     * @param Schema - Model of the schema the document is for
+     * @param id - ID of the document
+     */
+    public abstract delete<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string
+    ): Awaitable<void>;
+
+    /**
+     * Stores multiple new documents
+     * @param Schema - Model of the schema the documents are for
+     * @param docs - The documents to store
+     * @returns The stored documents
+     */
+    public abstract insertMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, docs: Array<QuerySchema<T>>
+    ): Awaitable<Array<JSONIfySchema<T>>>;
+
+    /**
+     * Updates every document matching a filter
+     * @param Schema - Model of the schema the documents are for
+     * @param filter - The filter of the documents
+     * @param update - The update to apply
+     * @returns The updated documents
+     */
+    public abstract updateMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, update: DatabaseStorageUpdate<T>
+    ): Awaitable<Array<JSONIfySchema<T>>>;
+
+    /**
+     * Deletes every document matching a filter
+     * @param Schema - Model of the schema the documents are for
+     * @param filter - The filter of the documents
+     * @returns The deleted documents
+     */
+    public abstract deleteMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>
+    ): Awaitable<Array<JSONIfySchema<T>>>;
+
+    /**
+     * Updates the first document matching a filter, or stores a new one made from the filter and the update if
+     * none matched
+     * @param Schema - Model of the schema the document is for
+     * @param filter - The filter of the document
+     * @param update - The update to apply
+     * @returns The updated or stored document
+     */
+    public abstract upsert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, update: DatabaseStorageUpdate<T>
+    ): Awaitable<JSONIfySchema<T>>;
+
+    /**
+     * Finds a single document
+     * @param Schema - Model of the schema the document is for
+     * @param filter - The ID or filter of the document
+     * @returns The document, or `null` if none matched
+     */
+    public abstract findOne<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>> | string
+    ): Awaitable<JSONIfySchema<T> | null>;
+
+    /**
+     * Finds multiple documents
+     * @param Schema - Model of the schema the documents are for
+     * @param filter - The filter of the documents
+     * @param options - The finding options
+     */
+    public abstract find<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, options?: DatabaseStorageFindOptions<T>
+    ): Awaitable<Array<JSONIfySchema<T>>>;
+
+    /**
+     * Streams every document matching the filter
+     * @param Schema - Model of the schema the documents are for
+     * @param filter - The filter of the documents
+     * @param options - The iterating options
+     */
+    public abstract iterate<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, options?: DatabaseIterateOptions<T>
+    ): AsyncIterable<JSONIfySchema<T>>;
+
+    /**
+     * Runs a function in a new transaction of the underlying database
+     * @param transaction - The transaction to run it in
+     * @param fn - The function to run, within the async context of the transaction
+     * @returns The result of the function
+     */
+    protected abstract runTransaction<R>(transaction: DatabaseTransaction, fn: () => Promise<R>): Promise<R>;
+}
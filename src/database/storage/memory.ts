@@ -0,0 +1,359 @@
+import { cloneDeep, get, isEqual, isPlainObject, omit, pick, set, unset } from 'lodash';
+import { Document, FilterQuery, SortOrder } from 'mongoose';
+import { DatabaseIterateOptions, QuerySchema } from '../DatabaseManager';
+import { AnySchema, JSONIfySchema, ModelFrom } from '../Schemas';
+import Util from '../../util';
+import DatabaseStorage, { DatabaseStorageFindOptions, DatabaseStorageUpdate, DatabaseTransaction } from './base';
+import { compareValues, isOperatorObject, matchesCondition, matchesFilter } from '../query';
+
+/** A document as it's kept by the storage */
+export type StoredDocument = Record<string, unknown> & { _id: string };
+
+/**
+ * Keeps the documents in memory only, so they are lost on restart. Documents are still cast with the schemas' models,
+ * so they get the same defaults, IDs and timestamps they would get in MongoDB.
+ *
+ * Filters support the same operators the {@link DatabaseManager} cache does. Updates support plain values and the
+ * `$set`, `$setOnInsert`, `$unset`, `$inc`, `$push`, `$addToSet` and `$pull` operators, but not aggregation pipelines.
+ *
+ * Transactions run one at a time, and only the changes they made are undone if they're rolled back. They aren't
+ * isolated, so changes made outside of a transaction while it runs are visible to it, and are kept if it's rolled back.
+ */
+export default class MemoryDatabaseStorage extends DatabaseStorage {
+    /** The documents, mapped by collection name, then by document ID */
+    protected collections: Map<string, Map<string, StoredDocument>>;
+    /** Settles once the last started transaction is done, so the next one can start */
+    protected transactionQueue: Promise<void>;
+
+    public constructor() {
+        super();
+
+        this.collections = new Map();
+        this.transactionQueue = Promise.resolve();
+    }
+
+    public connect(): boolean {
+        return true;
+    }
+
+    public isReady(): boolean {
+        return true;
+    }
+
+    public insert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, doc: QuerySchema<T>
+    ): JSONIfySchema<T> {
+        const now = new Date();
+        const timestamps = Schema.schema.get('timestamps') ? { createdAt: now, updatedAt: now } : {};
+        const document = this.castDocument(Schema, { ...doc, ...timestamps });
+
+        const collection = this.getCollection(Schema);
+        const previous = collection.get(document._id);
+        collection.set(document._id, document);
+        this.recordChange(collection, document._id, previous);
+        return cloneDeep(document) as JSONIfySchema<T>;
+    }
+
+    public update<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string, update: DatabaseStorageUpdate<T>
+    ): JSONIfySchema<T> | null {
+        const collection = this.getCollection(Schema);
+        const existing = collection.get(id);
+        if (!existing) return null;
+
+        const updated = cloneDeep(existing);
+        applyUpdate(updated, this.checkUpdate(update));
+        if (Schema.schema.get('timestamps')) updated.updatedAt = new Date();
+        const document = this.castDocument(Schema, updated);
+
+        collection.set(id, document);
+        this.recordChange(collection, id, existing);
+        return cloneDeep(document) as JSONIfySchema<T>;
+    }
+
+    public delete<T extends AnySchema, IncludeId extends boolean>(Schema: ModelFrom<T, IncludeId>, id: string): void {
+        const collection = this.getCollection(Schema);
+        const existing = collection.get(id);
+        if (!existing) return;
+
+        collection.delete(id);
+        this.recordChange(collection, id, existing);
+    }
+
+    public insertMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, docs: Array<QuerySchema<T>>
+    ): Array<JSONIfySchema<T>> {
+        return docs.map(doc => this.insert(Schema, doc));
+    }
+
+    public updateMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, update: DatabaseStorageUpdate<T>
+    ): Array<JSONIfySchema<T>> {
+        this.checkUpdate(update);
+        const ids = this.find(Schema, filter).map(doc => doc._id);
+        return ids.map(id => this.update(Schema, id, update) as JSONIfySchema<T>);
+    }
+
+    public deleteMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>
+    ): Array<JSONIfySchema<T>> {
+        const docs = this.find(Schema, filter);
+        for (const doc of docs) this.delete(Schema, doc._id);
+        return docs;
+    }
+
+    public upsert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, update: DatabaseStorageUpdate<T>
+    ): JSONIfySchema<T> {
+        const checkedUpdate = this.checkUpdate(update);
+        const existing = this.findOne(Schema, filter);
+        if (existing) return this.update(Schema, existing._id, update) as JSONIfySchema<T>;
+
+        // Like MongoDB, the new document starts with the fields the filter matches by equality
+        const doc: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(filter)) {
+            if (!key.startsWith('$') && !isOperatorObject(value)) set(doc, key, value);
+        }
+        applyUpdate(doc, checkedUpdate, true);
+        return this.insert(Schema, doc as QuerySchema<T>);
+    }
+
+    public findOne<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>> | string
+    ): JSONIfySchema<T> | null {
+        const collection = this.getCollection(Schema);
+        const doc = typeof filter === 'string'
+            ? collection.get(filter)
+            : [...collection.values()].find(d => matchesFilter(d, filter as Record<string, unknown>));
+
+        return doc ? cloneDeep(doc) as JSONIfySchema<T> : null;
+    }
+
+    public find<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, options: DatabaseStorageFindOptions<T> = {}
+    ): Array<JSONIfySchema<T>> {
+        const { limit, skip = 0, sort, projection } = options;
+
+        const docs = [...this.getCollection(Schema).values()]
+            .filter(doc => matchesFilter(doc, filter as Record<string, unknown>));
+        if (sort) docs.sort(compareBy(sort as Record<string, SortOrder>));
+
+        return docs
+            .slice(skip, limit ? skip + limit : undefined)
+            .map(doc => project(cloneDeep(doc), projection) as JSONIfySchema<T>);
+    }
+
+    public async *iterate<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, options: DatabaseIterateOptions<T> = {}
+    ): AsyncGenerator<JSONIfySchema<T>, void, undefined> {
+        const { sort, projection } = options;
+        yield* this.find(Schema, filter, { sort, projection });
+    }
+
+    /**
+     * Obtains the documents of a collection, creating it if it doesn't exist yet
+     * @param Schema - Model of the schema the collection is for
+     */
+    protected getCollection<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>
+    ): Map<string, StoredDocument> {
+        const { name } = Schema.collection;
+        let collection = this.collections.get(name);
+        if (!collection) {
+            collection = new Map();
+            this.collections.set(name, collection);
+        }
+        return collection;
+    }
+
+    /**
+     * Checks whether an update is supported by this storage
+     * @param update - The update to check
+     */
+    protected checkUpdate<T extends AnySchema>(update: DatabaseStorageUpdate<T>): Record<string, unknown> {
+        if (Array.isArray(update)) {
+            throw new TypeError(`${this.constructor.name} does not support aggregation pipeline updates.`);
+        }
+        return update as Record<string, unknown>;
+    }
+
+    /**
+     * Casts a document with its schema's Schema, applying its defaults and generating its ID if it has none
+     * @param Schema - Model of the schema the document is for
+     * @param doc - The document to cast
+     */
+    protected castDocument<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, doc: object
+    ): StoredDocument {
+        return Util.jsonifyDocument(new Schema(doc) as Document<T>) as StoredDocument;
+    }
+
+    protected async runTransaction<R>(transaction: DatabaseTransaction, fn: () => Promise<R>): Promise<R> {
+        const previous = this.transactionQueue;
+        let release!: () => void;
+        this.transactionQueue = new Promise(resolve => {
+            release = resolve;
+        });
+
+        await previous;
+        try {
+            return await this.applyTransaction(transaction, fn);
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Runs a transaction, rolling it back if it throws. It's only called once the previous transaction is done.
+     * @param transaction - The transaction to run
+     * @param fn - The function to run, within the async context of the transaction
+     * @returns The result of the function
+     */
+    protected async applyTransaction<R>(transaction: DatabaseTransaction, fn: () => Promise<R>): Promise<R> {
+        transaction.undo = [];
+        try {
+            return await fn();
+        } catch (err) {
+            this.rollback(transaction);
+            throw err;
+        }
+    }
+
+    /**
+     * Undoes the changes made by a transaction, newest first
+     * @param transaction - The transaction to roll back
+     */
+    protected rollback(transaction: DatabaseTransaction): void {
+        const undo = transaction.undo ?? [];
+        for (let i = undo.length - 1; i >= 0; i--) undo[i]();
+        transaction.undo = [];
+    }
+
+    /**
+     * Records how to undo a change to a document, if it was made by the transaction of the current async context
+     * @param collection - The collection of the document
+     * @param id - The ID of the document
+     * @param previous - The document before the change, if it existed
+     */
+    protected recordChange(collection: Map<string, StoredDocument>, id: string, previous?: StoredDocument): void {
+        const undo = this.transactions.getStore()?.undo;
+        if (!undo) return;
+
+        const current = collection.get(id);
+        undo.push(() => {
+            // The document was changed again outside of the transaction, and that change is kept
+            if (collection.get(id) !== current) return;
+            if (previous) collection.set(id, previous);
+            else collection.delete(id);
+        });
+    }
+}
+
+/**
+ * Creates a sorting function for documents
+ * @param sort - How to sort the documents, mapped by field
+ */
+function compareBy(sort: Record<string, SortOrder>): (a: StoredDocument, b: StoredDocument) => number {
+    const orders = Object.entries(sort).map<[string, number]>(([field, order]) =>
+        [field, ['-1', 'desc', 'descending'].includes(order.toString()) ? -1 : 1]
+    );
+
+    return (a, b): number => {
+        for (const [field, order] of orders) {
+            const compared = compareValues(get(a, field), get(b, field));
+            if (compared !== 0) return compared * order;
+        }
+        return 0;
+    };
+}
+
+/**
+ * Includes or excludes the fields of a document
+ * @param doc - The document to project
+ * @param projection - Which fields to include or exclude
+ */
+function project(doc: StoredDocument, projection?: unknown): Partial<StoredDocument> {
+    if (!projection) return doc;
+
+    const fields = typeof projection === 'string'
+        ? projection.split(/\s+/).filter(Boolean).map<[string, boolean]>(field =>
+            field.startsWith('-') ? [field.slice(1), false] : [field, true]
+        )
+        : Object.entries(projection as Record<string, unknown>).map<[string, boolean]>(([field, value]) =>
+            [field, !!value]
+        );
+    const included = fields.filter(([field, include]) => include && field !== '_id').map(([field]) => field);
+    const excluded = fields.filter(([, include]) => !include).map(([field]) => field);
+
+    if (included.length === 0) return omit(doc, excluded);
+    return omit(pick(doc, ['_id', ...included]), excluded);
+}
+
+/**
+ * Applies an update to a document
+ * @param doc - The document to update
+ * @param update - The update to apply
+ * @param inserting - Whether the document is being inserted by an upsert
+ */
+function applyUpdate(doc: Record<string, unknown>, update: Record<string, unknown>, inserting = false): void {
+    for (const [key, value] of Object.entries(update)) {
+        if (key === '$setOnInsert' && !inserting) continue;
+        // Fields outside of an operator are set, like MongoDB does
+        if (!key.startsWith('$')) {
+            set(doc, key, value);
+            continue;
+        }
+        for (const [field, operand] of Object.entries(value as Record<string, unknown>)) {
+            applyOperator(doc, key, field, operand);
+        }
+    }
+}
+
+/**
+ * Applies an update operator to a field of a document
+ * @param doc - The document to update
+ * @param operator - The update operator
+ * @param field - The field to update
+ * @param operand - The operand of the operator
+ */
+function applyOperator(doc: Record<string, unknown>, operator: string, field: string, operand: unknown): void {
+    const current = get(doc, field) as unknown;
+    switch (operator) {
+        case '$set':
+        case '$setOnInsert':
+            set(doc, field, operand);
+            return;
+        case '$unset':
+            unset(doc, field);
+            return;
+        case '$inc':
+            set(doc, field, (typeof current === 'number' ? current : 0) + (operand as number));
+            return;
+        case '$push':
+        case '$addToSet': {
+            const items = isPlainObject(operand) && '$each' in (operand as object)
+                ? (operand as { $each: unknown[] }).$each
+                : [operand];
+            const array = Array.isArray(current) ? current as unknown[] : [];
+            for (const item of items) {
+                if (operator === '$addToSet' && array.some(element => isEqual(element, item))) continue;
+                array.push(item);
+            }
+            set(doc, field, array);
+            return;
+        }
+        case '$pull': {
+            if (!Array.isArray(current)) return;
+            // Objects without operators match the fields of the elements, like a filter
+            const matches = isPlainObject(operand) && !isOperatorObject(operand)
+                ? (item: unknown): boolean =>
+                    typeof item === 'object' && item !== null
+                    && matchesFilter(item, operand as Record<string, unknown>)
+                : (item: unknown): boolean => matchesCondition(item, operand);
+            set(doc, field, current.filter(item => !matches(item)));
+            return;
+        }
+        default:
+            throw new RangeError(`Unsupported update operator: ${operator}.`);
+    }
+}
@@ -0,0 +1,171 @@
+import mongoose, {
+    ClientSession,
+    Document,
+    FilterQuery,
+    ProjectionType,
+    SortOrder,
+    UpdateQuery,
+    UpdateWithAggregationPipeline,
+} from 'mongoose';
+import { DatabaseIterateOptions, QuerySchema } from '../DatabaseManager';
+import { AnySchema, DocumentFrom, JSONIfySchema, ModelFrom } from '../Schemas';
+import Util from '../../util';
+import DatabaseStorage, { DatabaseStorageFindOptions, DatabaseStorageUpdate, DatabaseTransaction } from './base';
+
+/**
+ * Stores the documents in MongoDB, connecting with {@link CommandoClientOptions.mongoDbURI CommandoClientOptions#mongoDbURI}
+ * or the `MONGO_DB_URI` environment variable. Transactions require MongoDB to run as a replica set.
+ */
+export default class MongoDatabaseStorage extends DatabaseStorage {
+    public async connect(): Promise<boolean> {
+        const { mongoDbURI } = this.client.options;
+        const { MONGO_DB_URI } = process.env;
+        const uri = mongoDbURI ?? MONGO_DB_URI;
+
+        if (!uri) return false;
+        mongoose.set('strictQuery', true);
+        await mongoose.connect(uri, { keepAlive: true });
+        this.client.emit('debug', 'Established database connection');
+        return true;
+    }
+
+    public isReady(): boolean {
+        return mongoose.connection.readyState === mongoose.ConnectionStates.connected;
+    }
+
+    /** Whether MongoDB runs as a replica set or behind a `mongos` router, which transactions require */
+    public override async supportsTransactions(): Promise<boolean> {
+        const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+        return typeof hello.setName === 'string' || hello.msg === 'isdbgrid';
+    }
+
+    public async insert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, doc: QuerySchema<T>
+    ): Promise<JSONIfySchema<T>> {
+        const rawDoc = await new Schema(doc).save({ session: this.session }) as Document<T>;
+        return Util.jsonifyDocument(rawDoc);
+    }
+
+    public async update<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string, update: DatabaseStorageUpdate<T>
+    ): Promise<JSONIfySchema<T> | null> {
+        const rawDoc = await Schema.findOneAndUpdate<Document<T>>(
+            { _id: id }, update as UpdateQuery<DocumentFrom<T, IncludeId>>, { new: true, session: this.session }
+        );
+        return Util.jsonifyDocument(rawDoc);
+    }
+
+    public async delete<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string
+    ): Promise<void> {
+        await Schema.deleteOne({ _id: id }, { session: this.session });
+    }
+
+    public async insertMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, docs: Array<QuerySchema<T>>
+    ): Promise<Array<JSONIfySchema<T>>> {
+        const rawDocs = await Schema.insertMany(docs, { session: this.session }) as Array<Document<T>>;
+        return rawDocs.map(Util.jsonifyDocument);
+    }
+
+    public async updateMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, update: DatabaseStorageUpdate<T>
+    ): Promise<Array<JSONIfySchema<T>>> {
+        const { session } = this;
+        // The IDs are fetched first so documents that stop matching the filter after the update are still returned
+        const ids = await Schema.distinct('_id', filter).session(session ?? null) as string[];
+        if (ids.length === 0) return [];
+
+        await Schema.updateMany({ _id: { $in: ids } }, update as UpdateWithAggregationPipeline, { session });
+        const rawDocs = await Schema.find<Document<T>>({ _id: { $in: ids } }, null, { session });
+        return rawDocs.map(Util.jsonifyDocument);
+    }
+
+    public async deleteMany<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>
+    ): Promise<Array<JSONIfySchema<T>>> {
+        const { session } = this;
+        const rawDocs = await Schema.find<Document<T>>(filter, null, { session });
+        if (rawDocs.length === 0) return [];
+
+        await Schema.deleteMany({ _id: { $in: rawDocs.map(doc => doc._id) } }, { session });
+        return rawDocs.map(Util.jsonifyDocument);
+    }
+
+    public async upsert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, update: DatabaseStorageUpdate<T>
+    ): Promise<JSONIfySchema<T>> {
+        const rawDoc = await Schema.findOneAndUpdate<Document<T>>(
+            filter, update as UpdateQuery<DocumentFrom<T, IncludeId>>, {
+                new: true,
+                upsert: true,
+                setDefaultsOnInsert: true,
+                session: this.session,
+            }
+        );
+        return Util.jsonifyDocument(rawDoc);
+    }
+
+    public async findOne<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>> | string
+    ): Promise<JSONIfySchema<T> | null> {
+        const { session } = this;
+        const rawDoc = typeof filter === 'string'
+            ? await Schema.findById<Document<T>>(filter, null, { session })
+            : await Schema.findOne<Document<T>>(filter, null, { session });
+        return Util.jsonifyDocument(rawDoc);
+    }
+
+    public async find<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, options: DatabaseStorageFindOptions<T> = {}
+    ): Promise<Array<JSONIfySchema<T>>> {
+        const { limit, skip, sort, projection } = options;
+
+        const query = Schema.find<Document<T>>(filter, projection as ProjectionType<T> | undefined, {
+            session: this.session,
+        });
+        if (sort) query.sort(sort as Record<string, SortOrder>);
+        if (skip) query.skip(skip);
+        if (limit) query.limit(limit);
+        const rawDocs = await query;
+
+        return rawDocs.map(Util.jsonifyDocument);
+    }
+
+    public async *iterate<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, filter: FilterQuery<QuerySchema<T>>, options: DatabaseIterateOptions<T> = {}
+    ): AsyncGenerator<JSONIfySchema<T>, void, undefined> {
+        const { batchSize = 100, sort, projection } = options;
+
+        const query = Schema.find<Document<T>>(filter, projection as ProjectionType<T> | undefined, {
+            session: this.session,
+        });
+        if (sort) query.sort(sort as Record<string, SortOrder>);
+
+        for await (const rawDoc of query.cursor({ batchSize })) {
+            yield Util.jsonifyDocument(rawDoc as Document<T>);
+        }
+    }
+
+    /** The session of the transaction running in the current async context, if any */
+    protected get session(): ClientSession | undefined {
+        return this.transactions.getStore()?.session;
+    }
+
+    protected async runTransaction<R>(transaction: DatabaseTransaction, fn: () => Promise<R>): Promise<R> {
+        const session = await mongoose.startSession();
+        transaction.session = session;
+
+        try {
+            let result: R | undefined;
+            await session.withTransaction(async () => {
+                // The callback is retried on transient errors, so only the last attempt's changes may be cached
+                transaction.onCommit = [];
+                result = await fn();
+            });
+            return result as R;
+        } finally {
+            await session.endSession();
+        }
+    }
+}
@@ -0,0 +1,129 @@
+import { Database as SyncSQLiteDatabase } from 'better-sqlite3';
+import { QuerySchema } from '../DatabaseManager';
+import { AnySchema, JSONIfySchema, ModelFrom } from '../Schemas';
+import MemoryDatabaseStorage, { StoredDocument } from './memory';
+import { DatabaseStorageUpdate, DatabaseTransaction } from './base';
+
+interface SQLiteDocumentRow {
+    id: string;
+    data: string;
+}
+
+/**
+ * Uses an SQLite database to store the documents, with a table per collection. Each collection is loaded into memory
+ * the first time it's used, so documents are queried, and transactions queued and rolled back, like
+ * {@link MemoryDatabaseStorage} does. Changes are written right away, except for the ones made in a transaction, which
+ * are written together once it's committed.
+ */
+export default class SQLiteDatabaseStorage extends MemoryDatabaseStorage {
+    /** Database that will be used for storing the documents */
+    public connection: SyncSQLiteDatabase;
+
+    /**
+     * @param connection - Database connection for the storage
+     */
+    public constructor(connection: SyncSQLiteDatabase) {
+        super();
+
+        this.connection = connection;
+    }
+
+    public override isReady(): boolean {
+        return this.connection.open;
+    }
+
+    public override insert<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, doc: QuerySchema<T>
+    ): JSONIfySchema<T> {
+        const inserted = super.insert(Schema, doc);
+        this.save(Schema, inserted._id);
+        return inserted;
+    }
+
+    public override update<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string, update: DatabaseStorageUpdate<T>
+    ): JSONIfySchema<T> | null {
+        const updated = super.update(Schema, id, update);
+        if (updated) this.save(Schema, id);
+        return updated;
+    }
+
+    public override delete<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>, id: string
+    ): void {
+        super.delete(Schema, id);
+        this.save(Schema, id);
+    }
+
+    protected override getCollection<T extends AnySchema, IncludeId extends boolean>(
+        Schema: ModelFrom<T, IncludeId>
+    ): Map<string, StoredDocument> {
+        const { name } = Schema.collection;
+        if (this.collections.has(name)) return super.getCollection(Schema);
+
+        const table = SQLiteDatabaseStorage.escapeTable(name);
+        this.connection.prepare(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT)`).run();
+        const rows = this.connection.prepare(`SELECT id, data FROM ${table}`).all() as SQLiteDocumentRow[];
+
+        const collection = super.getCollection(Schema);
+        for (const row of rows) {
+            // Casting the parsed document turns the dates and IDs back into their schema types
+            collection.set(row.id, this.castDocument(Schema, JSON.parse(row.data)));
+        }
+        return collection;
+    }
+
+    protected override async applyTransaction<R>(transaction: DatabaseTransaction, fn: () => Promise<R>): Promise<R> {
+        transaction.writes = [];
+        const result = await super.applyTransaction(transaction, fn);
+
+        // The connection is synchronous, so no write made outside of the transaction can end up between these
+        this.connection.prepare('BEGIN').run();
+        try {
+            for (const write of transaction.writes) write();
+            this.connection.prepare('COMMIT').run();
+        } catch (err) {
+            this.connection.prepare('ROLLBACK').run();
+            this.rollback(transaction);
+            throw err;
+        }
+        return result;
+    }
+
+    /**
+     * Writes a document into its collection's table, or waits for the transaction of the current async context to be
+     * committed to do so
+     * @param Schema - Model of the schema the document is for
+     * @param id - The ID of the document
+     */
+    protected save<T extends AnySchema, IncludeId extends boolean>(Schema: ModelFrom<T, IncludeId>, id: string): void {
+        const writes = this.transactions.getStore()?.writes;
+        if (writes) writes.push(() => this.write(Schema, id));
+        else this.write(Schema, id);
+    }
+
+    /**
+     * Writes a document into its collection's table as it's currently stored in memory, deleting its row if it was
+     * deleted
+     * @param Schema - Model of the schema the document is for
+     * @param id - The ID of the document
+     */
+    protected write<T extends AnySchema, IncludeId extends boolean>(Schema: ModelFrom<T, IncludeId>, id: string): void {
+        const table = SQLiteDatabaseStorage.escapeTable(Schema.collection.name);
+        const doc = this.getCollection(Schema).get(id);
+        if (doc) {
+            this.connection.prepare(`INSERT OR REPLACE INTO ${table} (id, data) VALUES (?, ?)`)
+                .run(id, JSON.stringify(doc));
+        } else {
+            this.connection.prepare(`DELETE FROM ${table} WHERE id = ?`).run(id);
+        }
+    }
+
+    /**
+     * Escapes a collection name so it can be used as a table name
+     * @param name - Name of the collection
+     */
+    protected static escapeTable(name: string): string {
+        return `"${name.replace(/"/g, '""')}"`;
+    }
+}
@@ -1,29 +1,44 @@
-import { EmbedBuilder, Message, Colors } from 'discord.js';
+import { EmbedBuilder, Message, Colors, InteractionResponse } from 'discord.js';
 import CommandoClient from './client';
 import { ArgumentResponse } from './commands/argument';
-import { CommandBlockReason } from './commands/base';
-import { CommandoChatInputCommandInteraction, CommandoifiedInteraction } from './discord.overrides';
+import Command, { CommandBlockContext, CommandBlockReason } from './commands/base';
+import {
+    AnyCommandoSelectMenuInteraction,
+    CommandoAutocompleteInteraction,
+    CommandoButtonInteraction,
+    CommandoChatInputCommandInteraction,
+    CommandoifiedInteraction,
+    CommandoMessageContextMenuCommandInteraction,
+    CommandoModalSubmitInteraction,
+    CommandoUserContextMenuCommandInteraction,
+} from './discord.overrides';
 import CommandoInteraction from './extensions/interaction';
 import CommandoMessage, { CommandoMessageResponse } from './extensions/message';
 import CommandoRegistry from './registry';
+import SettingProvider, { DefaultSQLiteSettings } from './providers/base';
 import Util from './util';
 
+/** Anything that can trigger a command, and thus be inhibited */
+export type InhibitorContext =
+    | CommandBlockContext
+    | CommandoAutocompleteInteraction;
+
 export interface Inhibition {
     /** Identifier for the reason the command is being blocked */
     reason: string;
-    /** Response being sent to the user */
-    response?: Promise<Message> | null;
+    /** Response being sent to the user. For interactions, this should usually be an ephemeral reply */
+    response?: Promise<InteractionResponse | Message> | null;
 }
 
 /**
  * A function that decides whether the usage of a command should be blocked
- * @param msg - Message triggering the command
+ * @param context - Message or interaction triggering the command
  * @returns `false` if the command should *not* be blocked.
  * If the command *should* be blocked, then one of the following:
  * - A single string identifying the reason the command is blocked
  * - An Inhibition object
  */
-type Inhibitor = (msg: CommandoMessage) => Inhibition | string;
+type Inhibitor = (context: InhibitorContext) => Inhibition | string;
 
 type UsableInteraction =
     | CommandoInteraction
@@ -37,8 +52,8 @@ export default class CommandDispatcher {
     public registry: CommandoRegistry;
     /** Functions that can block commands from running */
     public inhibitors: Set<Inhibitor>;
-    /** Map of {@link RegExp}s that match command messages, mapped by string prefix */
-    protected _commandPatterns: Map<string | undefined, RegExp>;
+    /** Map of {@link RegExp}s that match command messages, mapped by their prefixes joined by new lines */
+    protected _commandPatterns: Map<string, RegExp>;
     /** Old command message results, mapped by original message ID */
     protected _results: Map<string, CommandoMessage>;
     /** Tuples in string form of user ID and channel ID that are currently awaiting messages from a user in a channel */
@@ -70,6 +85,13 @@ export default class CommandDispatcher {
      * client.dispatcher.addInhibitor(msg => {
      *     if (!coolUsers.has(msg.author.id)) return { reason: 'cool', response: msg.reply('You\'re not cool enough!') };
      * });
+     * @example
+     * client.dispatcher.addInhibitor(context => {
+     *     if (maintenance && context instanceof CommandoInteraction) return {
+     *         reason: 'maintenance',
+     *         response: context.reply({ content: 'The bot is under maintenance.', ephemeral: true }),
+     *     };
+     * });
      */
     public addInhibitor(inhibitor: Inhibitor): boolean {
         const { inhibitors } = this;
@@ -124,7 +146,8 @@ export default class CommandDispatcher {
                 const { command, author } = cmdMsg;
                 const inhibited = this.inhibit(cmdMsg);
                 if (inhibited) {
-                    responses = await inhibited.response ?? null;
+                    const response = await inhibited.response;
+                    responses = response instanceof Message ? response : null;
                     break commandResponses;
                 }
 
@@ -135,11 +158,7 @@ export default class CommandDispatcher {
                 }
 
                 if (!command.isEnabledIn(message.guild) && (!command.hidden || this.client.isOwner(author))) {
-                    const responseEmbed = new EmbedBuilder()
-                        .setColor(Colors.Red)
-                        .setDescription(`The \`${command.name}\` command is disabled.`);
-
-                    responses = await cmdMsg.replyEmbed(responseEmbed);
+                    responses = await cmdMsg.replyEmbed(disabledCommandEmbed(command));
                     break commandResponses;
                 }
 
@@ -169,24 +188,43 @@ export default class CommandDispatcher {
             return;
         }
 
-        if (!interaction.isAutocomplete() && !interaction.isContextMenuCommand()) return;
-
-        const { client, commandName } = interaction;
-        const command = client.registry.resolveCommand(commandName);
-        if (interaction.isAutocomplete()) {
-            await command.runAutocomplete?.(interaction);
+        if (interaction.isButton() || interaction.isAnySelectMenu() || interaction.isModalSubmit()) {
+            await this.handleComponent(interaction);
             return;
         }
 
-        if (interaction.isMessageContextMenuCommand()) {
-            await command.runMessageContextMenu?.(interaction);
+        if (!interaction.isAutocomplete() && !interaction.isContextMenuCommand()) return;
+
+        const inhibited = this.inhibit(interaction);
+        if (inhibited) {
+            await inhibited.response;
+            if (interaction.isAutocomplete() && !interaction.responded) await interaction.respond([]);
             return;
         }
 
-        if (interaction.isUserContextMenuCommand()) {
-            await command.runUserContextMenu?.(interaction);
+        if (interaction.isAutocomplete()) {
+            const command = interaction.client.registry.resolveSlashCommand(interaction);
+            if (command.runAutocomplete) await command.runAutocomplete(interaction);
+            else await this.handleAutocomplete(interaction, command);
             return;
         }
+
+        await this.handleContextMenuCommand(interaction);
+    }
+
+    /**
+     * Answers an autocomplete interaction with the choices of the focused argument
+     * @param interaction - The interaction to answer
+     * @param command - The command the interaction is for
+     */
+    protected async handleAutocomplete(interaction: CommandoAutocompleteInteraction, command: Command): Promise<void> {
+        const focused = interaction.options.getFocused(true);
+        const subcommand = command.resolveSlashSubcommand(interaction);
+        const argsCollector = subcommand ? subcommand.argsCollector : command.argsCollector;
+        const arg = argsCollector?.args.find(arg => Util.camelToKebabCase(arg.key) === focused.name);
+
+        const choices = arg?.autocomplete ? await arg.autocompleteChoices(focused.value, interaction) : [];
+        await interaction.respond(choices);
     }
 
     /**
@@ -196,13 +234,15 @@ export default class CommandDispatcher {
     protected async handleChatInputCommand(interaction: CommandoInteraction): Promise<void> {
         const { command, guild } = interaction;
 
-        if (!command.isEnabledIn(guild)) {
-            const responseEmbed = new EmbedBuilder()
-                .setColor(Colors.Red)
-                .setDescription(`The \`${command.name}\` command is disabled.`);
+        const inhibited = this.inhibit(interaction);
+        if (inhibited) {
+            await inhibited.response;
+            return;
+        }
 
+        if (!command.isEnabledIn(guild)) {
             await interaction.reply({
-                embeds: [responseEmbed],
+                embeds: [disabledCommandEmbed(command)],
                 ephemeral: true,
             });
             return;
@@ -211,6 +251,82 @@ export default class CommandDispatcher {
         await interaction.run();
     }
 
+    /**
+     * Handle a new context menu command interaction
+     * @param interaction - The interaction to handle
+     */
+    protected async handleContextMenuCommand(
+        interaction: CommandoMessageContextMenuCommandInteraction | CommandoUserContextMenuCommandInteraction
+    ): Promise<void> {
+        const { client, commandName, guild } = interaction;
+        const command = client.registry.resolveCommand(commandName);
+
+        if (!command.isEnabledIn(guild)) {
+            await interaction.reply({
+                embeds: [disabledCommandEmbed(command)],
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const blockResult = await command['runBlockPipeline'](interaction);
+        if (blockResult.blocked) return;
+
+        if (interaction.isMessageContextMenuCommand()) {
+            await command.runMessageContextMenu?.(interaction);
+            return;
+        }
+        await command.runUserContextMenu?.(interaction);
+    }
+
+    /**
+     * Handle a new button, select menu or modal submit interaction. Only interactions with a custom ID created with
+     * {@link Command.buildCustomId Command#buildCustomId} are routed to their command, the rest are ignored.
+     * @param interaction - The interaction to handle
+     */
+    protected async handleComponent(
+        interaction: AnyCommandoSelectMenuInteraction | CommandoButtonInteraction | CommandoModalSubmitInteraction
+    ): Promise<void> {
+        const parsed = Command.parseCustomId(interaction.customId);
+        if (!parsed) return;
+
+        const { commandName, action, state } = parsed;
+        const command = this.registry.commands.get(commandName);
+        const hasHandler = !!command && (
+            interaction.isButton() ? !!command.runButton
+                : interaction.isModalSubmit() ? !!command.runModalSubmit
+                    : !!command.runSelectMenu
+        );
+        if (!command || !hasHandler) return;
+
+        const inhibited = this.inhibit(interaction);
+        if (inhibited) {
+            await inhibited.response;
+            return;
+        }
+
+        if (!command.isEnabledIn(interaction.guild)) {
+            await interaction.reply({
+                embeds: [disabledCommandEmbed(command)],
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const blockResult = await command['runBlockPipeline'](interaction, false);
+        if (blockResult.blocked) return;
+
+        if (interaction.isButton()) {
+            await command.runButton?.(interaction, action, state);
+            return;
+        }
+        if (interaction.isModalSubmit()) {
+            await command.runModalSubmit?.(interaction, action, state);
+            return;
+        }
+        await command.runSelectMenu?.(interaction, action, state);
+    }
+
     /**
      * Check whether a message should be handled
      * @param message - The message to handle
@@ -234,13 +350,13 @@ export default class CommandDispatcher {
     }
 
     /**
-     * Inhibits a command message
-     * @param message - Command message to inhibit
+     * Inhibits a command message or interaction
+     * @param context - Command message or interaction to inhibit
      */
-    protected inhibit(message: CommandoMessage): Inhibition | null {
+    protected inhibit(context: InhibitorContext): Inhibition | null {
         const { inhibitors, client } = this;
         for (const inhibitor of inhibitors) {
-            let inhibit = inhibitor(message);
+            let inhibit = inhibitor(context);
             if (!inhibit) continue;
             if (typeof inhibit !== 'object') inhibit = { reason: inhibit, response: null };
 
@@ -252,7 +368,7 @@ export default class CommandDispatcher {
                 `Inhibitor "${inhibitor.name}" had an invalid result must be a string or an Inhibition object.`
             );
 
-            client.emit('commandBlock', message, inhibit.reason as CommandBlockReason);
+            client.emit('commandBlock', context, inhibit.reason as CommandBlockReason);
             return inhibit;
         }
         return null;
@@ -294,7 +410,7 @@ export default class CommandDispatcher {
      * @param message - The message
      */
     protected parseMessage(message: CommandoMessage): CommandoMessage | null {
-        const { client, _commandPatterns, registry } = this;
+        const { _commandPatterns, registry } = this;
         const { content, guild } = message;
 
         // Find the command to run by patterns
@@ -307,8 +423,8 @@ export default class CommandDispatcher {
         }
 
         // Find the command to run with default command handling
-        const prefix = guild?.prefix || client.prefix;
-        const pattern = _commandPatterns.get(prefix) ?? this.buildCommandPattern(prefix);
+        const prefixes = this.getPrefixes(message);
+        const pattern = _commandPatterns.get(prefixes.join('\n')) ?? this.buildCommandPattern(prefixes);
         let cmdMsg = this.matchDefault(message, pattern, 2);
         if (!cmdMsg && !guild) cmdMsg = this.matchDefault(message, /^([^\s]+)/i, 1, true);
         return cmdMsg;
@@ -338,24 +454,54 @@ export default class CommandDispatcher {
     }
 
     /**
-     * Creates a regular expression to match the command prefix and name in a message
-     * @param prefix - Prefix to build the pattern for
+     * Obtains the prefixes that can be used in a message's channel: the channel's own prefix, if a
+     * {@link SettingProvider} has one for it, or else the prefixes of the guild (or the global ones)
+     * @param message - The message
      */
-    protected buildCommandPattern(prefix?: string): RegExp {
+    protected getPrefixes(message: CommandoMessage): string[] {
+        const { client } = this;
+        const { channelId, guild } = message;
+        const provider = client.provider as SettingProvider<DefaultSQLiteSettings> | null;
+
+        // The scope is read directly, since the schema's default prefix doesn't make a channel prefix
+        const channelPrefix = provider?.['settings'].get(SettingProvider.getChannelScopeID(channelId))?.prefix;
+        if (!Util.isNullish(channelPrefix)) return Util.uniquePrefixes([channelPrefix]);
+        return guild?.prefixes ?? client.prefixes;
+    }
+
+    /**
+     * Creates a regular expression to match any of the command prefixes and the command name in a message
+     * @param prefixes - Prefixes to build the pattern for
+     */
+    protected buildCommandPattern(prefixes: string[]): RegExp {
         const { client, _commandPatterns } = this;
         const { id } = (client as CommandoClient<true>).user;
 
         let pattern: RegExp;
-        if (prefix) {
-            const escapedPrefix = Util.escapeRegex(prefix);
+        if (prefixes.length !== 0) {
+            // Longer prefixes go first, so they aren't matched by a shorter one they start with
+            const escapedPrefixes = [...prefixes]
+                .sort((a, b) => b.length - a.length)
+                .map(prefix => Util.escapeRegex(prefix))
+                .join('|');
             pattern = new RegExp(
-                `^(<@!?${id}>\\s+(?:${escapedPrefix}\\s*)?|${escapedPrefix}\\s*)([^\\s]+)`, 'i'
+                `^(<@!?${id}>\\s+(?:(?:${escapedPrefixes})\\s*)?|(?:${escapedPrefixes})\\s*)([^\\s]+)`, 'i'
             );
         } else {
             pattern = new RegExp(`(^<@!?${id}>\\s+)([^\\s]+)`, 'i');
         }
-        _commandPatterns.set(prefix, pattern);
-        client.emit('debug', `Built command pattern for prefix "${prefix}": ${pattern}`);
+        _commandPatterns.set(prefixes.join('\n'), pattern);
+        client.emit('debug', `Built command pattern for prefixes "${prefixes.join('", "')}": ${pattern}`);
         return pattern;
     }
 }
+
+/**
+ * Creates the embed used to respond when a command is disabled.
+ * @param command - The disabled command
+ */
+function disabledCommandEmbed(command: Command): EmbedBuilder {
+    return new EmbedBuilder()
+        .setColor(Colors.Red)
+        .setDescription(`The \`${command.name}\` command is disabled.`);
+}
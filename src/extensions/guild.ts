@@ -6,7 +6,7 @@ import Command from '../commands/base';
 import GuildDatabaseManager from '../database/GuildDatabaseManager';
 import GuildSettingsHelper from '../providers/helper';
 import { CommandGroupResolvable, CommandResolvable } from '../registry';
-import { Nullable } from '../util';
+import Util, { Nullable } from '../util';
 
 /** A fancier Guild for fancier people. */
 // @ts-expect-error: Guild's constructor is private
@@ -24,10 +24,12 @@ export default class CommandoGuild extends Guild {
      * getter/setter
      */
     protected _prefix?: string | null;
-    /** Internal map object of internal command statuses, mapped by command name */
-    protected _commandsEnabled: Map<string, boolean>;
-    /** Internal map object of internal group statuses, mapped by group ID */
-    protected _groupsEnabled: Map<string, boolean>;
+    /**
+     * Internal additional command prefixes for the guild, controlled by
+     * {@link CommandoGuild.addPrefix CommandoGuild#addPrefix} and
+     * {@link CommandoGuild.removePrefix CommandoGuild#removePrefix}
+     */
+    protected _prefixes: string[];
 
     /**
      * @param client - The client the guild is for
@@ -44,8 +46,7 @@ export default class CommandoGuild extends Guild {
         this.settings = new GuildSettingsHelper(this.client, this);
         this.queuedLogs = [];
         this._prefix = null;
-        this._commandsEnabled = new Map();
-        this._groupsEnabled = new Map();
+        this._prefixes = [];
     }
 
     /**
@@ -63,6 +64,40 @@ export default class CommandoGuild extends Guild {
         this.client.emit('commandPrefixChange', this, this._prefix);
     }
 
+    /**
+     * All command prefixes in the guild: {@link CommandoGuild.prefix CommandoGuild#prefix} first, then the additional
+     * ones
+     */
+    public get prefixes(): string[] {
+        return Util.uniquePrefixes([this.prefix, ...this._prefixes]);
+    }
+
+    /**
+     * Adds an additional command prefix to the guild, which can be used alongside the main one
+     * @param prefix - Prefix to add
+     * @emits {@link CommandoClientEvents.commandPrefixesChange commandPrefixesChange}
+     */
+    public addPrefix(prefix: string): void {
+        if (typeof prefix !== 'string' || !prefix) throw new TypeError('Prefix must be a non-empty string.');
+        if (this._prefixes.some(existing => existing.toLowerCase() === prefix.toLowerCase())) return;
+        this._prefixes.push(prefix);
+        this.client.emit('commandPrefixesChange', this, [...this._prefixes]);
+    }
+
+    /**
+     * Removes an additional command prefix from the guild
+     * @param prefix - Prefix to remove
+     * @returns Whether the prefix was removed
+     * @emits {@link CommandoClientEvents.commandPrefixesChange commandPrefixesChange}
+     */
+    public removePrefix(prefix: string): boolean {
+        const index = this._prefixes.findIndex(existing => existing.toLowerCase() === prefix.toLowerCase());
+        if (index === -1) return false;
+        this._prefixes.splice(index, 1);
+        this.client.emit('commandPrefixesChange', this, [...this._prefixes]);
+        return true;
+    }
+
     /**
      * Sets whether a command is enabled in the guild
      * @param command - Command to set status of
@@ -76,7 +111,7 @@ export default class CommandoGuild extends Guild {
         if (guarded) throw new Error('The command is guarded.');
         if (typeof enabled === 'undefined') throw new TypeError('Enabled must not be undefined.');
         enabled = !!enabled;
-        this._commandsEnabled.set(name, enabled);
+        client.commandStatusStore.set('commands', this.id, name, enabled);
         if (!silent) client.emit('commandStatusChange', this, command, enabled);
     }
 
@@ -85,11 +120,11 @@ export default class CommandoGuild extends Guild {
      * @param command - Command to check status of
      */
     public isCommandEnabled(command: CommandResolvable): boolean {
-        const { registry } = this.client;
+        const { registry, commandStatusStore } = this.client;
         command = registry.resolveCommand(command);
         const { name, guarded } = command;
         if (guarded) return true;
-        const commandEnabled = this._commandsEnabled.get(name);
+        const commandEnabled = commandStatusStore.get('commands', this.id, name);
         if (typeof commandEnabled === 'undefined') {
             return command.isEnabledIn(null);
         }
@@ -109,7 +144,7 @@ export default class CommandoGuild extends Guild {
         if (guarded) throw new Error('The group is guarded.');
         if (typeof enabled === 'undefined') throw new TypeError('Enabled must not be undefined.');
         enabled = !!enabled;
-        this._groupsEnabled.set(id, enabled);
+        client.commandStatusStore.set('groups', this.id, id, enabled);
         if (!silent) client.emit('groupStatusChange', this, group, enabled);
     }
 
@@ -118,11 +153,11 @@ export default class CommandoGuild extends Guild {
      * @param group - Group to check status of
      */
     public isGroupEnabled(group: CommandGroupResolvable): boolean {
-        const { registry } = this.client;
+        const { registry, commandStatusStore } = this.client;
         group = registry.resolveGroup(group);
         const { id, guarded } = group;
         if (guarded) return true;
-        const groupEnabled = this._commandsEnabled.get(id);
+        const groupEnabled = commandStatusStore.get('groups', this.id, id);
         if (typeof groupEnabled === 'undefined') {
             return group.isEnabledIn(null);
         }
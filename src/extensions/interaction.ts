@@ -1,4 +1,3 @@
-import { stripIndent } from 'common-tags';
 import {
     APIApplicationCommandOption as APISlashCommandOption,
     APIChatInputApplicationCommandInteraction,
@@ -10,12 +9,20 @@ import {
     Colors,
     EmbedBuilder,
     If,
+    InteractionDeferReplyOptions,
+    InteractionEditReplyOptions,
+    InteractionReplyOptions,
+    InteractionResponse,
+    Message,
+    MessagePayload,
+    MessageResolvable,
     Snowflake,
     User,
 } from 'discord.js';
 import CommandoClient from '../client';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-import Command, { CommandContext } from '../commands/base';
+import Command, { CommandArgumentsResolvable, CommandContext } from '../commands/base';
+import ArgumentCollector, { ArgumentPromptInteraction } from '../commands/collector';
 import FriendlyError from '../errors/friendly';
 import {
     CommandoChannel,
@@ -58,6 +65,12 @@ export interface SlashCommandOptionTypeMap {
     [SlashCommandOptionType.SubcommandGroup]: never;
 }
 
+/** The response methods and state every {@link ArgumentPromptInteraction} has */
+type InteractionResponder = Pick<
+    ChatInputCommandInteraction,
+    'deferred' | 'deferReply' | 'deleteReply' | 'editReply' | 'ephemeral' | 'fetchReply' | 'followUp' | 'replied' | 'reply'
+>;
+
 const APISlashCommandOptionTypeMap = Object.fromEntries(Util.getEnumEntries(SlashCommandOptionType)
     .map(([key, value]) => [value, key]));
 
@@ -69,6 +82,11 @@ export default class CommandoInteraction<InGuild extends boolean = boolean> exte
     declare public guildId: If<InGuild, Snowflake>;
     /** Command that the interaction triggers */
     protected _command: Command<InGuild>;
+    /**
+     * Interaction the replies are sent through. Once argument prompts were answered, this is the last interaction
+     * used to answer them, since a modal is a response to the interaction that showed it.
+     */
+    protected responseInteraction: ArgumentPromptInteraction;
 
     /**
      * @param client - The client the interaction is for
@@ -78,7 +96,8 @@ export default class CommandoInteraction<InGuild extends boolean = boolean> exte
         super(client, interactionToJSON(data));
         Object.assign(this, data);
 
-        this._command = client.registry.resolveCommand(data.commandName) as Command<InGuild>;
+        this._command = client.registry.resolveSlashCommand(data) as Command<InGuild>;
+        this.responseInteraction = this;
     }
 
     /** Used for compatibility with {@link CommandoMessage} in {@link CommandContext}. */
@@ -127,6 +146,88 @@ export default class CommandoInteraction<InGuild extends boolean = boolean> exte
         return false;
     }
 
+    /**
+     * Obtains the raw values of the options that map to the arguments of a collector, mapped by argument key.
+     * Missing options are mapped to `undefined`.
+     * @param argsCollector - The collector of the command or subcommand being run
+     */
+    protected parseRawArgs<Args extends CommandArgumentsResolvable>(
+        argsCollector: ArgumentCollector<Args>
+    ): Record<string, string | undefined> {
+        const provided: Record<string, string | undefined> = {};
+        for (const arg of argsCollector.args) {
+            const option = this.options.get(Util.camelToKebabCase(arg.key));
+            provided[arg.key] = option?.value?.toString();
+        }
+        return provided;
+    }
+
+    public override deferReply(options: InteractionDeferReplyOptions & { fetchReply: true }): Promise<Message>;
+    public override deferReply(options?: InteractionDeferReplyOptions): Promise<InteractionResponse>;
+    public override deferReply(options?: InteractionDeferReplyOptions): Promise<InteractionResponse | Message> {
+        if (this.responseInteraction === this) return super.deferReply(options);
+        return this.respondThrough(interaction => interaction.deferReply(options));
+    }
+
+    public override reply(options: InteractionReplyOptions & { fetchReply: true }): Promise<Message>;
+    public override reply(options: InteractionReplyOptions | MessagePayload | string): Promise<InteractionResponse>;
+    public override reply(
+        options: InteractionReplyOptions | MessagePayload | string
+    ): Promise<InteractionResponse | Message> {
+        if (this.responseInteraction === this) return super.reply(options);
+        return this.respondThrough(interaction => interaction.reply(options));
+    }
+
+    public override editReply(options: InteractionEditReplyOptions | MessagePayload | string): Promise<Message> {
+        if (this.responseInteraction === this) return super.editReply(options);
+        return this.respondThrough(interaction => interaction.editReply(options));
+    }
+
+    public override fetchReply(message?: Snowflake): Promise<Message> {
+        if (this.responseInteraction === this) return super.fetchReply(message);
+        return this.respondThrough(interaction => interaction.fetchReply(message));
+    }
+
+    public override deleteReply(message?: MessageResolvable): Promise<void> {
+        if (this.responseInteraction === this) return super.deleteReply(message);
+        return this.respondThrough(interaction => interaction.deleteReply(message));
+    }
+
+    public override followUp(options: InteractionReplyOptions | MessagePayload | string): Promise<Message> {
+        if (this.responseInteraction === this) return super.followUp(options);
+        return this.respondThrough(interaction => interaction.followUp(options));
+    }
+
+    /**
+     * Sends replies through another interaction from now on, while this one keeps its own identity.
+     * Used when argument prompts were answered, since a modal is a response to the interaction that showed it.
+     * @param interaction - The interaction to respond through
+     */
+    protected adoptInteraction(interaction: ArgumentPromptInteraction): void {
+        if (interaction === this) return;
+        this.responseInteraction = interaction;
+        this.syncResponseState();
+    }
+
+    /**
+     * Responds through {@link CommandoInteraction.responseInteraction CommandoInteraction#responseInteraction},
+     * keeping the response state of this interaction in sync with it
+     * @param respond - Sends the response through the interaction
+     */
+    protected async respondThrough<T>(respond: (interaction: InteractionResponder) => Promise<T>): Promise<T> {
+        try {
+            return await respond(this.responseInteraction as InteractionResponder);
+        } finally {
+            this.syncResponseState();
+        }
+    }
+
+    /** Copies the response state of the interaction the replies are sent through */
+    protected syncResponseState(): void {
+        const { deferred, replied, ephemeral } = this.responseInteraction;
+        Object.assign(this, { deferred, replied, ephemeral });
+    }
+
     /**
      * Parses the options data into usable arguments
      * @see {@link Command.run Command#run}
@@ -167,76 +268,19 @@ export default class CommandoInteraction<InGuild extends boolean = boolean> exte
 
     /** Runs the command */
     public async run(): Promise<void> {
-        const { command, channelId, channel: tempChannel, guild, author, guildId, client } = this;
-        const clientUser = client.user;
+        const { command, channelId, channel: tempChannel, author, guildId, client } = this;
         const channel = tempChannel ?? await client.channels.fetch(channelId) as unknown as CommandContextChannel<false>;
 
-        if (guild && !channel.isDMBased()) {
-            const { members } = guild;
-
-            // Obtain the member for the ClientUser if it doesn't already exist
-            const me = members.me ?? await members.fetch(clientUser.id);
-
-            const clientPerms = me.permissionsIn(channel.id).serialize();
-            if (clientPerms.ViewChannel && !clientPerms.SendMessages) {
-                await author.send(stripIndent`
-                    It seems like I cannot **Send Messages** in this channel: ${channel.toString()}
-                    Please try in another channel, or contact the admins of **${guild.name}** to solve this issue.
-                `).catch(() => null);
-                return;
-            }
-
-            if (!clientPerms.UseApplicationCommands) {
-                await author.send(stripIndent`
-                    It seems like I cannot **Use Application Commands** in this channel: ${channel.toString()}
-                    Please try in another channel, or contact the admins of **${guild.name}** to solve this issue.
-                `).catch(() => null);
-                return;
-            }
-
-            // Make sure the command is usable in this context
-            if (command.dmOnly) {
-                client.emit('commandBlock', this, 'dmOnly');
-                await command.onBlock(this, 'dmOnly');
-                return;
-            }
-        }
-
         // Make sure the command is usable in this context
-        if ((command.guildOnly || command.guildOwnerOnly) && !guild) {
-            client.emit('commandBlock', this, 'guildOnly');
-            await command.onBlock(this, 'guildOnly');
-            return;
-        }
-
-        // Ensure the channel is a NSFW one if required
-        if (command.nsfw && !channel.isDMBased() && channel.isTextBased() && !channel.isThread() && !channel.nsfw) {
-            client.emit('commandBlock', this, 'nsfw');
-            await command.onBlock(this, 'nsfw');
-            return;
-        }
-
-        // Ensure the user has permission to use the command
-        const hasPermission = command.hasPermission(this);
-        if (hasPermission !== true) {
-            if (typeof hasPermission === 'string') {
-                client.emit('commandBlock', this, hasPermission);
-                await command.onBlock(this, hasPermission);
-                return;
-            }
-            const data = { missing: hasPermission || undefined };
-            client.emit('commandBlock', this, 'userPermissions', data);
-            await command.onBlock(this, 'userPermissions', data);
-            return;
-        }
-
-        // Ensure the client user has the required permissions
-        if (!channel.isDMBased() && command.clientPermissions) {
-            const missing = channel.permissionsFor(clientUser)?.missing(command.clientPermissions) || [];
-            if (missing.length > 0) {
-                const data = { missing };
-                client.emit('commandBlock', this, 'clientPermissions', data);
-                await command.onBlock(this, 'clientPermissions', data);
+        const blockResult = await command['runBlockPipeline'](this);
+        if (blockResult.blocked) return;
+        const { throttle } = blockResult;
+
+        const subcommand = command.resolveSlashSubcommand(this);
+        if (subcommand) {
+            const subBlockResult = await command['runSubcommandBlockPipeline'](this, subcommand);
+            if (subBlockResult.blocked) {
+                if (throttle) await command['refundThrottle'](this);
                 return;
             }
         }
@@ -255,6 +299,22 @@ export default class CommandoInteraction<InGuild extends boolean = boolean> exte
         // Parses the options into an arguments object. Array.from to prevent "readonly" error.
         const args = this.parseArgs(this.command.slashCommand?.options);
 
+        // Obtain the missing or invalid argument values
+        const argsCollector = subcommand ? subcommand.argsCollector : command.argsCollector;
+        if (argsCollector && command.autogenerateSlashCommand) {
+            const collResult = await argsCollector.obtainFromInteraction(this, this.parseRawArgs(argsCollector));
+            this.adoptInteraction(collResult.interaction);
+            if (collResult.cancelled) {
+                if (throttle) await command['refundThrottle'](this);
+                client.emit('commandCancel', command, collResult.cancelled, this, collResult);
+                const options = { content: 'Cancelled command.', ephemeral: true };
+                if (this.isEditable()) await this.followUp(options).catch(() => null);
+                else await this.reply(options).catch(() => null);
+                return;
+            }
+            Object.assign(args, collResult.values);
+        }
+
         // Run the command
         try {
             const location = guildId ? `${guildId}:${channelId}` : `DM:${author.id}`;
@@ -12,7 +12,7 @@ import {
     APIUser,
     GuildTextBasedChannel,
 } from 'discord.js';
-import { oneLine, stripIndent } from 'common-tags';
+import { oneLine } from 'common-tags';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import Command, { CommandContext } from '../commands/base';
 import FriendlyError from '../errors/friendly';
@@ -27,6 +27,8 @@ import {
 } from '../discord.overrides';
 import CommandoInteraction from './interaction';
 import { ArgumentCollectorResult } from '../commands/collector';
+import Argument from '../commands/argument';
+import Subcommand from '../commands/subcommand';
 
 export type CommandContextChannel<CanBeNull extends boolean, InGuild extends boolean = boolean> = If<
     InGuild,
@@ -58,6 +60,14 @@ export interface ResponseOptions {
     fromEdit?: boolean;
 }
 
+/** Result object from extracting the flag arguments of an argument string */
+export interface ParsedArgumentFlags {
+    /** The argument string without the flags and their values */
+    argString: string;
+    /** Raw values of the flags, mapped by argument key */
+    flags: Record<string, string>;
+}
+
 export type CommandoMessageResponse<InGuild extends boolean = boolean> =
     | Array<Message<InGuild>>
     | CommandoMessage<InGuild>
@@ -194,74 +204,13 @@ export default class CommandoMessage<InGuild extends boolean = boolean> extends
 
     /** Runs the command */
     public async run(): Promise<CommandoMessageResponse> {
-        const { guild, guildId, channel, channelId, author, client, command, patternMatches, argString } = this;
-        const { user: clientUser } = client;
+        const { guildId, channel, channelId, author, client, command, patternMatches } = this;
         if (!command) return null;
 
-        if (guild && !channel.isDMBased()) {
-            const { members } = guild;
-
-            // Obtain the member for the ClientUser if it doesn't already exist
-            const me = members.me ?? await members.fetch(clientUser.id);
-
-            // Checks if the client has permission to send messages
-            const clientPerms = me.permissionsIn(channel.id).serialize();
-            if (clientPerms && clientPerms.ViewChannel && !clientPerms.SendMessages) {
-                return await this.direct(stripIndent`
-                    It seems like I cannot **Send Messages** in this channel: ${channel.toString()}
-                    Please try in another channel, or contact the admins of **${guild.name}** to solve this issue.
-                `).catch(() => null);
-            }
-
-            // Make sure the command is usable in this context
-            if (command.dmOnly) {
-                client.emit('commandBlock', this, 'dmOnly');
-                return await command.onBlock(this, 'dmOnly');
-            }
-        }
-
         // Make sure the command is usable in this context
-        if ((command.guildOnly || command.guildOwnerOnly) && !guild) {
-            client.emit('commandBlock', this, 'guildOnly');
-            return await command.onBlock(this, 'guildOnly');
-        }
-
-        // Ensure the channel is a NSFW one if required
-        if (command.nsfw && 'nsfw' in channel && !channel.nsfw) {
-            client.emit('commandBlock', this, 'nsfw');
-            return await command.onBlock(this, 'nsfw');
-        }
-
-        // Ensure the user has permission to use the command
-        const hasPermission = command.hasPermission(this);
-        if (!channel.isDMBased() && hasPermission !== true) {
-            if (typeof hasPermission === 'string') {
-                client.emit('commandBlock', this, hasPermission);
-                return await command.onBlock(this, hasPermission);
-            }
-            const data = { missing: hasPermission || undefined };
-            client.emit('commandBlock', this, 'userPermissions', data);
-            return await command.onBlock(this, 'userPermissions', data);
-        }
-
-        // Ensure the client user has the required permissions
-        if (!channel.isDMBased() && command.clientPermissions) {
-            const missing = channel.permissionsFor(clientUser)?.missing(command.clientPermissions) || [];
-            if (missing.length > 0) {
-                const data = { missing };
-                client.emit('commandBlock', this, 'clientPermissions', data);
-                return await command.onBlock(this, 'clientPermissions', data);
-            }
-        }
-
-        // Throttle the command
-        const throttle = command['throttle'](author.id);
-        if (throttle && command.throttling && throttle.usages + 1 > command.throttling.usages) {
-            const remaining = (throttle.start + (command.throttling.duration * 1000) - Date.now()) / 1000;
-            const data = { throttle, remaining };
-            client.emit('commandBlock', this, 'throttling', data);
-            return await command.onBlock(this, 'throttling', data);
-        }
+        const blockResult = await command['runBlockPipeline'](this);
+        if (blockResult.blocked) return blockResult.response;
+        const { throttle } = blockResult;
 
         if (command.deprecated) {
             const embed = new EmbedBuilder()
@@ -274,16 +223,40 @@ export default class CommandoMessage<InGuild extends boolean = boolean> extends
             await this.replyEmbed(embed);
         }
 
+        // Figure out the subcommand
+        let { argString } = this;
+        let subcommand: Subcommand | null = null;
+        if (!patternMatches && command.subcommands.size > 0) {
+            const parsed = command.parseSubcommand(argString ?? '');
+            if (!parsed) {
+                if (throttle) await command['refundThrottle'](this);
+                const err = new CommandFormatError(this);
+                return this.reply({ content: err.message, ...Util.noReplyPingInDMs(this) });
+            }
+
+            ({ subcommand, argString } = parsed);
+            const subBlockResult = await command['runSubcommandBlockPipeline'](this, subcommand);
+            if (subBlockResult.blocked) {
+                if (throttle) await command['refundThrottle'](this);
+                return subBlockResult.response;
+            }
+        }
+
         // Figure out the command arguments
+        const argsCollector = subcommand ? subcommand.argsCollector : command.argsCollector;
         let args: Record<string, unknown> | string[] | string | null = patternMatches;
         let collResult: ArgumentCollectorResult | null = null;
-        if (!args && command.argsCollector) {
-            const collArgs = command.argsCollector.args;
-            const count = collArgs[collArgs.length - 1].infinite ? Infinity : collArgs.length;
-            const provided = CommandoMessage.parseArgs((argString ?? '').trim(), count, command.argsSingleQuotes);
+        if (!args && argsCollector) {
+            const { argString: positionalString, flags } = CommandoMessage.parseFlags(
+                (argString ?? '').trim(), argsCollector.args, command.argsSingleQuotes
+            );
+            const collArgs = argsCollector.positionalArgs;
+            const count = collArgs[collArgs.length - 1]?.infinite ? Infinity : collArgs.length;
+            const provided = CommandoMessage.parseArgs(positionalString, count, command.argsSingleQuotes);
 
-            collResult = await command.argsCollector.obtain(this, provided);
+            collResult = await argsCollector.obtain(this, provided, undefined, flags);
             if (collResult.cancelled) {
+                if (throttle) await command['refundThrottle'](this);
                 if (collResult.prompts.length === 0 || collResult.cancelled === 'promptLimit') {
                     const err = new CommandFormatError(this);
                     return this.reply({ content: err.message, ...Util.noReplyPingInDMs(this) });
@@ -294,11 +267,17 @@ export default class CommandoMessage<InGuild extends boolean = boolean> extends
             }
             args = collResult.values;
         }
+        if (subcommand) {
+            args = {
+                ...subcommand.group && { subCommandGroup: subcommand.group.name },
+                subCommand: subcommand.name,
+                ...args as Record<string, unknown> | null,
+            };
+        }
         args ??= this.parseArgs();
         const fromPattern = !!patternMatches;
 
         // Run the command
-        if (throttle) throttle.usages++;
         try {
             const location = guildId ? `${guildId}:${channelId}` : `DM:${author.id}`;
             client.emit('debug', `Running message command "${command.toString()}" at "${location}".`);
@@ -571,6 +550,65 @@ export default class CommandoMessage<InGuild extends boolean = boolean> extends
 
         return result;
     }
+
+    /**
+     * Extracts the values of the flag arguments from an argument string. Flags can be specified anywhere in the string
+     * as `--flag-name value`, `--flag-name=value` or `-f value`, and boolean flags as just `--flag-name` or `-f`.
+     * Everything after a lone `--` is left as-is.
+     * @param argString - The argument string to parse
+     * @param args - The arguments to extract the flags of
+     * @param allowSingleQuote - Whether or not single quotes should be allowed to wrap values, in addition to
+     * double quotes
+     * @return The raw flag values and the remaining argument string
+     */
+    public static parseFlags(argString: string, args: Argument[], allowSingleQuote = true): ParsedArgumentFlags {
+        const flagArgs = args.filter(arg => arg.flag);
+        const flags: Record<string, string> = {};
+        if (flagArgs.length === 0) return { argString, flags };
+
+        const argStringModified = removeSmartQuotes(argString, allowSingleQuote);
+        const regex = allowSingleQuote
+            ? /\s*(?:("|')([^]*?)\1|(--?[a-z][\w-]*=)("|')([^]*?)\4|(\S+))\s*/gi
+            : /\s*(?:(")([^]*?)"|(--?[a-z][\w-]*=)(")([^]*?)"|(\S+))\s*/gi;
+        let remaining = '';
+        let pending: Argument | null = null;
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(argStringModified))) {
+            const [token, , quoted, flagPrefix, , flagValue, plain] = match;
+            if (plain === '--') {
+                remaining += argStringModified.slice(regex.lastIndex);
+                break;
+            }
+
+            const flagMatch = (flagPrefix ?? plain)?.match(/^(--?)([a-z][\w-]*)(?:=([^]*))?$/i);
+            const arg = flagMatch && findFlagArgument(flagArgs, flagMatch[1], flagMatch[2]);
+            if (arg) {
+                // A previous flag left without a value stays empty
+                pending = null;
+                const value = flagValue ?? flagMatch[3];
+                if (value !== undefined) flags[arg.key] = value;
+                else if (arg.isBooleanFlag) flags[arg.key] = 'true';
+                else pending = arg;
+                continue;
+            }
+
+            if (pending) {
+                flags[pending.key] = quoted ?? plain ?? token.trim();
+                pending = null;
+                continue;
+            }
+
+            remaining += token;
+        }
+
+        return { argString: remaining.trim(), flags };
+    }
+}
+
+function findFlagArgument(args: Argument[], dashes: string, name: string): Argument | undefined {
+    if (dashes === '-') return args.find(arg => arg.shortFlag === name);
+    return args.find(arg => arg.flagName === name.toLowerCase());
 }
 
 function removeSmartQuotes(argString: string, allowSingleQuote = true): string {
@@ -5,17 +5,56 @@ export {
 } from './client';
 export {
     default as CommandoRegistry,
+    CommandGroupInfo,
     CommandGroupResolvable,
     CommandResolvable,
     DefaultCommandsOptions,
     DefaultTypesOptions,
     RequireAllOptions,
 } from './registry';
-export { default as CommandDispatcher, Inhibition } from './dispatcher';
-export { default as SettingProvider, SettingProviderGet } from './providers/base';
+export { default as CommandDispatcher, Inhibition, InhibitorContext } from './dispatcher';
+export {
+    default as SettingProvider,
+    DefaultSQLiteSettings,
+    ListenersMap,
+    SettingProviderGet,
+    SettingResolveContext,
+    SettingScopeID,
+} from './providers/base';
 export { default as GuildSettingsHelper } from './providers/helper';
-export { default as SQLiteProvider, DefaultSQLiteSettings } from './providers/sqlite';
+export {
+    default as SettingsSchema,
+    SettingDefinition,
+    SettingValueType,
+    SettingsMigration,
+    SettingsSchemaInfo,
+} from './providers/schema';
+export {
+    default as SettingsMigrator,
+    SettingsMigrationConflict,
+    SettingsMigrationOptions,
+    SettingsMigrationReport,
+} from './providers/migrator';
+export { default as SQLiteProvider } from './providers/sqlite';
 export { default as SyncSQLiteProvider } from './providers/sqlite-sync';
+export { default as InMemorySettingProvider } from './providers/memory';
+export { default as JSONFileSettingProvider } from './providers/json-file';
+export {
+    default as MongoSettingProvider,
+    MongoSettingsCollection,
+    MongoSettingsDocument,
+} from './providers/mongo';
+export { default as InMemoryMongoSettingsCollection } from './providers/mongo-memory';
+export { default as CommandStatusStore, CommandStatusType } from './statuses/base';
+export { default as MemoryCommandStatusStore } from './statuses/memory';
+export { default as DatabaseCommandStatusStore } from './statuses/database';
+export { default as SettingsSyncTransport, SettingChange } from './sync/base';
+export { default as ShardSettingsSyncTransport } from './sync/shard';
+export { default as LocalSettingsSyncTransport } from './sync/local';
+export { default as ThrottleStore } from './throttles/base';
+export { default as MemoryThrottleStore } from './throttles/memory';
+export { default as SettingProviderThrottleStore } from './throttles/provider';
+export { default as DatabaseThrottleStore } from './throttles/database';
 export {
     default as CommandoInteraction,
     SlashCommandBasicOptionsParser,
@@ -26,6 +65,7 @@ export {
     default as CommandoMessage,
     CommandContextChannel,
     CommandoMessageResponse,
+    ParsedArgumentFlags,
     ResponseOptions,
     ResponseType,
     StringResolvable,
@@ -35,18 +75,25 @@ export {
     APISlashCommand,
     ArgumentTypeToSlashMap,
     CommandArgumentsResolvable,
+    CommandBlockContext,
     CommandBlockData,
+    CommandBlockPipelineResult,
     CommandBlockReason,
     CommandContext,
     CommandInfo,
+    ParsedCustomId,
     SlashCommandInfo,
     Throttle,
     ThrottlingOptions,
+    ThrottlingScope,
 } from './commands/base';
+export { default as Subcommand, SubcommandInfo } from './commands/subcommand';
 export { default as CommandGroup } from './commands/group';
 export {
     default as ArgumentCollector,
+    ArgumentCollectorInteractionResult,
     ArgumentCollectorResult,
+    ArgumentPromptInteraction,
     ParseRawArguments,
 } from './commands/collector';
 export {
@@ -65,8 +112,26 @@ export { default as ArgumentUnionType } from './types/union';
 export { default as FriendlyError } from './errors/friendly';
 export { default as CommandFormatError } from './errors/command-format';
 export { default as ClientDatabaseManager } from './database/ClientDatabaseManager';
-export { default as DatabaseManager, QuerySchema, DatabaseFetchOptions } from './database/DatabaseManager';
+export {
+    default as DatabaseManager,
+    DatabaseFetchManyOptions,
+    DatabaseFetchOptions,
+    DatabaseIterateOptions,
+    QuerySchema,
+} from './database/DatabaseManager';
+export { default as DatabaseCache, DatabaseCacheOptions, DatabaseCachePolicy } from './database/DatabaseCache';
+export {
+    default as DatabaseStorage,
+    DatabaseStorageFindOptions,
+    DatabaseStorageUpdate,
+    DatabaseTransaction,
+} from './database/storage/base';
+export { default as MongoDatabaseStorage } from './database/storage/mongo';
+export { default as MemoryDatabaseStorage, StoredDocument } from './database/storage/memory';
+export { default as SQLiteDatabaseStorage } from './database/storage/sqlite';
 export { default as GuildDatabaseManager } from './database/GuildDatabaseManager';
+export { default as GuildDataLifecycle, GuildDataPurge } from './database/GuildDataLifecycle';
+export { default as UserDataManager, UserDataErasure, UserDataExport } from './database/UserDataManager';
 export {
     ActiveSchema,
     AfkSchema,
@@ -80,6 +145,7 @@ export {
     FaqSchema,
     GuildAuditLog,
     GuildModule,
+    GuildPurgeSchema,
     JSONIfySchema,
     McIpSchema,
     ModelFrom,
@@ -94,6 +160,7 @@ export {
     SchemaResolvable,
     SetupSchema,
     StickyRoleSchema,
+    ThrottleSchema,
     TimeBasedModerationType,
     TodoSchema,
     WelcomeSchema,
@@ -1,6 +1,46 @@
-import { Awaitable, Guild } from 'discord.js';
-import CommandoClient from '../client';
+import { Awaitable, Channel, Guild, GuildMember, Snowflake, User } from 'discord.js';
+import CommandoClient, { CommandoClientEvents } from '../client';
 import { CommandoGuildResolvable } from '../discord.overrides';
+import Command from '../commands/base';
+import CommandGroup from '../commands/group';
+import CommandoGuild from '../extensions/guild';
+import Util, { Nullable, PropertiesOf } from '../util';
+import SettingsSchema from './schema';
+import { SettingChange } from '../sync/base';
+import MemoryCommandStatusStore from '../statuses/memory';
+
+type EventName = keyof CommandoClientEvents;
+type EventListener = (...args: PropertiesOf<CommandoClientEvents>) => unknown;
+// @ts-expect-error: set override
+export interface ListenersMap extends Map<EventName, EventListener> {
+    set<K extends EventName>(key: K, value: (...args: CommandoClientEvents[K]) => unknown): ListenersMap;
+}
+
+/** Settings every built-in provider stores: the prefixes and the command and group statuses */
+export interface DefaultSQLiteSettings {
+    prefix?: string | null | undefined;
+    prefixes?: string[] | undefined;
+    /** ID of the guild the channel of a channel scope is in, so the scope is deleted along with the guild's data */
+    guild?: string | undefined;
+    [k: `cmd-${string}`]: boolean | undefined;
+    [k: `grp-${string}`]: boolean | undefined;
+    // [k: string]: unknown;
+}
+
+/**
+ * ID of a channel or user settings scope, which are kept apart from the guild settings
+ * @see {@link SettingProvider.getChannelScopeID SettingProvider.getChannelScopeID}
+ * @see {@link SettingProvider.getUserScopeID SettingProvider.getUserScopeID}
+ */
+export type SettingScopeID = `channel:${string}` | `user:${string}`;
+
+/** Scopes to look a setting up in with {@link SettingProvider.resolve SettingProvider#resolve} */
+export interface SettingResolveContext {
+    /** Channel to look the setting up in first */
+    channel?: Channel | Snowflake | null;
+    /** Guild to look the setting up in next. Defaults to the channel's guild, if any */
+    guild?: CommandoGuildResolvable | null;
+}
 
 export type SettingProviderGet<Value, Default> = Default extends NonNullable<Default>
     ? NonNullable<Default | Value>
@@ -8,11 +48,26 @@ export type SettingProviderGet<Value, Default> = Default extends NonNullable<Def
 
 /** Loads and stores settings associated with guilds */
 export default abstract class SettingProvider<Settings extends object = object> {
-    /** Settings cached in memory, mapped by guild ID (or 'global') */
+    /**
+     * Client that the provider is for (set once the client is ready,
+     * after using {@link CommandoClient.setProvider CommandoClient#setProvider})
+     */
+    declare public client: CommandoClient<true> | null;
+    /** Settings cached in memory, mapped by guild ID, scope ID (or 'global') */
     protected settings: Map<string, Settings>;
+    /** Listeners on the Client, mapped by the event name */
+    protected listeners: ListenersMap;
+    /**
+     * Whether the provider was loaded with {@link SettingProvider.load SettingProvider#load}, so its settings aren't
+     * applied to the client and its changes aren't listened to
+     */
+    protected loadOnly: boolean;
 
     public constructor() {
+        Object.defineProperty(this, 'client', { value: null, writable: true });
         this.settings = new Map();
+        this.listeners = new Map();
+        this.loadOnly = false;
     }
 
     /**
@@ -22,12 +77,22 @@ export default abstract class SettingProvider<Settings extends object = object>
      */
     public abstract init(client: CommandoClient<true>): Awaitable<void>;
 
+    /**
+     * Loads the stored settings only, without applying the prefixes and command/group statuses to the client nor
+     * storing its changes. Used for providers that are only read from, like the source of a {@link SettingsMigrator}.
+     * @param client - Client that will be reading from the provider
+     */
+    public async load(client: CommandoClient<true>): Promise<void> {
+        this.loadOnly = true;
+        await this.init(client);
+    }
+
     /** Destroys the provider, removing any event listeners. */
     public abstract destroy(): Awaitable<void>;
 
     /**
-     * Obtains a setting for a guild
-     * @param guild - Guild the setting is associated with (or 'global')
+     * Obtains a setting for a guild, or a channel or user scope
+     * @param guild - Guild or scope ID the setting is associated with (or 'global')
      * @param key - Name of the setting
      * @param defaultValue - Value to default to if the setting isn't set on the guild
      */
@@ -36,8 +101,8 @@ export default abstract class SettingProvider<Settings extends object = object>
     ): SettingProviderGet<Settings[K], Default>;
 
     /**
-     * Sets a setting for a guild
-     * @param guild - Guild to associate the setting with (or 'global')
+     * Sets a setting for a guild, or a channel or user scope
+     * @param guild - Guild or scope ID to associate the setting with (or 'global')
      * @param key - Name of the setting
      * @param value - Value of the setting
      * @returns New value of the setting
@@ -47,8 +112,8 @@ export default abstract class SettingProvider<Settings extends object = object>
     ): Awaitable<Settings[K]>;
 
     /**
-     * Removes a setting from a guild
-     * @param guild - Guild the setting is associated with (or 'global')
+     * Removes a setting from a guild, or a channel or user scope
+     * @param guild - Guild or scope ID the setting is associated with (or 'global')
      * @param key - Name of the setting
      * @returns Old value of the setting
      */
@@ -57,20 +122,345 @@ export default abstract class SettingProvider<Settings extends object = object>
     ): Awaitable<Settings[K] | undefined>;
 
     /**
-     * Removes all settings in a guild
-     * @param guild - Guild to clear the settings of
+     * Removes all settings in a guild, or a channel or user scope
+     * @param guild - Guild or scope ID to clear the settings of
      */
     public abstract clear(guild: CommandoGuildResolvable | null): Awaitable<void>;
 
     /**
-     * Obtains the ID of the provided guild, or throws an error if it isn't valid
+     * Obtains a setting from the most specific scope it's set in: the channel first, then the guild, and lastly
+     * the global settings
+     * @param context - Channel and/or guild to look the setting up in
+     * @param key - Name of the setting
+     * @param defaultValue - Value to default to if the setting isn't set in any of the scopes
+     */
+    public resolve<K extends keyof Settings, Default extends Settings[K]>(
+        context: SettingResolveContext, key: K, defaultValue?: Default
+    ): SettingProviderGet<Settings[K], Default> {
+        const { channel } = context;
+        const guild = context.guild ?? (typeof channel === 'object' && channel && 'guild' in channel
+            ? channel.guild
+            : null);
+
+        const scopes = [
+            ...channel ? [SettingProvider.getChannelScopeID(channel)] : [],
+            ...guild ? [SettingProvider.getGuildID(guild)] : [],
+            'global',
+        ];
+        for (const scope of scopes) {
+            const value = this.settings.get(scope)?.[key];
+            if (!Util.isNullish(value)) return value as SettingProviderGet<Settings[K], Default>;
+        }
+
+        return (defaultValue ?? this.getDefaultSetting(key)) as SettingProviderGet<Settings[K], Default>;
+    }
+
+    /**
+     * Records the guild a channel is in, so its settings are deleted along with the guild's data
+     * @param channel - Channel to record the guild of
+     * @param guild - Guild the channel is in
+     */
+    public async setChannelGuild(channel: Channel | Snowflake, guild: CommandoGuildResolvable): Promise<void> {
+        const provider = this as unknown as SettingProvider<DefaultSQLiteSettings>;
+        const scope = SettingProvider.getChannelScopeID(channel);
+        const guildId = SettingProvider.getGuildID(guild);
+        if (provider.settings.get(scope)?.guild === guildId) return;
+        await provider.set(scope, 'guild', guildId);
+    }
+
+    /**
+     * Obtains the scope IDs of the channels recorded to be in a guild
+     * @param guild - Guild to get the channel scopes of
+     * @see {@link SettingProvider.setChannelGuild SettingProvider#setChannelGuild}
+     */
+    public getChannelScopes(guild: CommandoGuildResolvable): SettingScopeID[] {
+        const guildId = SettingProvider.getGuildID(guild);
+        const scopes: SettingScopeID[] = [];
+        for (const [id, settings] of this.settings) {
+            if (!id.startsWith('channel:') || (settings as DefaultSQLiteSettings).guild !== guildId) continue;
+            scopes.push(id as SettingScopeID);
+        }
+        return scopes;
+    }
+
+    /** The settings schema of the client, if any */
+    protected get schema(): SettingsSchema<Settings> | null {
+        return this.client?.settingsSchema as SettingsSchema<Settings> | null ?? null;
+    }
+
+    /**
+     * Parses the stored settings of a guild, migrating them to the current version of the schema
+     * @param guild - Guild ID the settings are for (or 'global')
+     * @param stored - The stored settings
+     * @return The settings and whether they were migrated, or `null` if they aren't valid or couldn't be migrated
+     */
+    protected loadStoredSettings(guild: string, stored: unknown): { settings: Settings; migrated: boolean } | null {
+        if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return null;
+        const { schema } = this;
+        if (schema) {
+            try {
+                return schema.migrate(stored as Record<string, unknown>, guild);
+            } catch (err) {
+                this.client?.emit('warn', `${this.constructor.name} couldn't migrate the settings of ${guild}: ${err}`);
+                return null;
+            }
+        }
+
+        const settings: Record<string, unknown> = { ...stored };
+        delete settings[SettingsSchema.versionKey];
+        return { settings: settings as Settings, migrated: false };
+    }
+
+    /**
+     * Prepares the settings of a guild to be stored, adding the schema version if there's a schema
+     * @param settings - Settings to store
+     */
+    protected serializeSettings(settings: Settings): Settings {
+        return this.schema?.serialize(settings) ?? settings;
+    }
+
+    /**
+     * Validates the value of a setting against the schema, throwing an error if it's invalid
+     * @param guild - Guild ID the setting is for (or 'global')
+     * @param key - Key of the setting
+     * @param value - Value of the setting
+     */
+    protected validateSetting<K extends keyof Settings>(guild: string, key: K, value: Settings[K]): void {
+        this.schema?.validate(key, value, guild);
+    }
+
+    /**
+     * Gets the default value of a setting from the schema
+     * @param key - Key of the setting
+     */
+    protected getDefaultSetting<K extends keyof Settings>(key: K): Settings[K] | undefined {
+        return this.schema?.getDefault(key);
+    }
+
+    /**
+     * Stores the prefix and the command and group statuses whenever they change, and loads the settings of new
+     * guilds, commands and groups. The statuses are left alone unless the client keeps them in a
+     * {@link MemoryCommandStatusStore}. Meant to be called from {@link SettingProvider.init SettingProvider#init}.
+     * @param client - Client to listen to
+     */
+    protected setupListeners(client: CommandoClient<true>): void {
+        if (this.loadOnly) return;
+        const provider = this as unknown as SettingProvider<DefaultSQLiteSettings>;
+        this.listeners
+            .set('commandPrefixChange', (guild, prefix) => {
+                provider.storeSetting(guild ?? null, 'prefix', prefix);
+            })
+            .set('commandPrefixesChange', (guild, prefixes) => {
+                provider.storeSetting(guild, 'prefixes', prefixes);
+            })
+            .set('guildCreate', guild => {
+                const settings = this.settings.get(guild.id);
+                if (!settings) return;
+                this.setupGuild(guild.id, settings);
+            });
+        if (this.storesStatuses()) {
+            this.listeners
+                .set('commandStatusChange', (guild, command, enabled) => {
+                    provider.storeSetting(guild, `cmd-${command.name}`, enabled);
+                })
+                .set('groupStatusChange', (guild, group, enabled) => {
+                    provider.storeSetting(guild, `grp-${group.id}`, enabled);
+                })
+                .set('commandRegister', command => {
+                    for (const [guild, settings] of this.settings) {
+                        if (guild !== 'global' && !client.guilds.cache.has(guild)) continue;
+                        this.setupGuildCommand(client.guilds.cache.get(guild), command, settings);
+                    }
+                })
+                .set('groupRegister', group => {
+                    for (const [guild, settings] of this.settings) {
+                        if (guild !== 'global' && !client.guilds.cache.has(guild)) continue;
+                        this.setupGuildGroup(client.guilds.cache.get(guild), group, settings);
+                    }
+                });
+        }
+        for (const [event, listener] of this.listeners) client.on(event, listener);
+    }
+
+    /**
+     * Sets a setting from a client event, emitting a warning instead of throwing if it's invalid or can't be stored
+     * @param guild - Guild to associate the setting with (or 'global')
+     * @param key - Name of the setting
+     * @param value - Value of the setting
+     */
+    protected storeSetting<K extends keyof Settings>(guild: CommandoGuild | null, key: K, value: Settings[K]): void {
+        Promise.resolve()
+            .then(() => this.set(guild, key, value))
+            .catch((err: Error) => {
+                const guildId = guild?.id ?? 'global';
+                this.client?.emit('warn', `${this.constructor.name} couldn't store ${String(key)} in ${guildId}: ${err}`);
+            });
+    }
+
+    /** Removes all listeners added by {@link SettingProvider.setupListeners SettingProvider#setupListeners} */
+    protected removeListeners(): void {
+        for (const [event, listener] of this.listeners) {
+            this.client?.removeListener(event, listener as () => void);
+        }
+        this.listeners.clear();
+    }
+
+    /**
+     * Loads all settings for a guild
+     * @param guild - Guild ID to load the settings of (or 'global')
+     * @param settings - Settings to load
+     */
+    protected setupGuild(guild: string, settings: Settings): void {
+        if (!this.client) {
+            throw new Error(`${this.constructor.name} must be ready first.`);
+        }
+        if (typeof guild !== 'string') throw new TypeError('The guild must be a guild ID or "global".');
+        if (this.loadOnly) return;
+        const resolvedGuild = this.client.guilds.resolve(guild) as CommandoGuild | null;
+        const { prefix, prefixes } = settings as DefaultSQLiteSettings;
+
+        // Load the command prefixes
+        if (typeof prefix !== 'undefined') {
+            if (resolvedGuild) resolvedGuild['_prefix'] = prefix;
+            else this.client['_prefix'] = prefix;
+        }
+        if (Array.isArray(prefixes)) {
+            if (resolvedGuild) resolvedGuild['_prefixes'] = [...prefixes];
+            else this.client['_prefixes'] = [...prefixes];
+        }
+
+        // Load all command/group statuses
+        if (!this.storesStatuses()) return;
+        for (const command of this.client.registry.commands.values()) {
+            this.setupGuildCommand(resolvedGuild, command, settings);
+        }
+        for (const group of this.client.registry.groups.values()) {
+            this.setupGuildGroup(resolvedGuild, group, settings);
+        }
+    }
+
+    /**
+     * Whether the command and group statuses are stored as the `cmd-*` and `grp-*` settings. They're only stored when
+     * the client keeps them in a {@link MemoryCommandStatusStore}, since any other store persists them by itself.
+     */
+    protected storesStatuses(): boolean {
+        return this.client?.commandStatusStore instanceof MemoryCommandStatusStore;
+    }
+
+    /**
+     * Sets up a command's status in a guild from the guild's settings
+     * @param guild - Guild to set the status in
+     * @param command - Command to set the status of
+     * @param settings - Settings of the guild
+     */
+    protected setupGuildCommand(guild: Nullable<CommandoGuildResolvable>, command: Command, settings: Settings): void {
+        const enabled = (settings as DefaultSQLiteSettings)[`cmd-${command.name}`];
+        if (typeof enabled === 'undefined') return;
+        command.setEnabledIn(guild ?? null, !!enabled, true);
+    }
+
+    /**
+     * Sets up a command group's status in a guild from the guild's settings
+     * @param guild - Guild to set the status in
+     * @param group - Group to set the status of
+     * @param settings - Settings of the guild
+     */
+    protected setupGuildGroup(guild: Nullable<CommandoGuildResolvable>, group: CommandGroup, settings: Settings): void {
+        const enabled = (settings as DefaultSQLiteSettings)[`grp-${group.id}`];
+        if (typeof enabled === 'undefined') return;
+        group.setEnabledIn(guild ?? null, !!enabled, true);
+    }
+
+    /**
+     * Sends a setting change to the other shards through the client's {@link SettingsSyncTransport}, if any
+     * @param guild - Guild ID, scope ID (or 'global') the change was made in
+     * @param key - Key of the changed setting, or `null` if all the settings were cleared
+     * @param value - New value of the setting, or `undefined` if it was removed
+     */
+    protected syncChange<K extends keyof Settings>(guild: string, key: K | null, value?: Settings[K]): void {
+        const transport = this.client?.settingsSync;
+        if (!transport) return;
+
+        const change: SettingChange = {
+            guild,
+            key: key as string | null,
+            value: typeof value !== 'undefined' ? JSON.stringify(value) : undefined,
+        };
+        Promise.resolve()
+            .then(() => transport.send(change))
+            .catch((err: Error) => {
+                this.client?.emit('warn', `${this.constructor.name} couldn't sync a setting change of ${guild}: ${err}`);
+            });
+    }
+
+    /**
+     * Applies a setting change made in another shard, which already stored it, to the cached settings and to the
+     * guild's prefix and command/group statuses
+     * @param change - The setting change
+     */
+    protected applyChange(change: SettingChange): void {
+        const { client } = this;
+        if (!client) return;
+        const { guild, key } = change;
+
+        if (key === null) {
+            this.settings.delete(guild);
+            return;
+        }
+
+        let settings = this.settings.get(guild);
+        if (!settings) {
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            settings = {} as Settings;
+            this.settings.set(guild, settings);
+        }
+        const value = typeof change.value !== 'undefined' ? JSON.parse(change.value) : undefined;
+        (settings as Record<string, unknown>)[key] = value;
+
+        if (SettingProvider.isScopeID(guild) || (guild !== 'global' && !client.guilds.cache.has(guild))) return;
+        if ((key === 'prefix' || key === 'prefixes') && typeof value === 'undefined') {
+            // Removed prefixes fall back to the default ones
+            this.setupGuild(guild, { [key]: key === 'prefix' ? null : [] } as Settings);
+            return;
+        }
+        this.setupGuild(guild, { [key]: value } as Settings);
+    }
+
+    /**
+     * Obtains the ID of the provided guild, or throws an error if it isn't valid. Scope IDs are returned as-is.
      * @param guild - Guild to get the ID of
-     * @returns ID of the guild, or 'global'
+     * @returns ID of the guild, the scope ID, or 'global'
      */
     public static getGuildID(guild: CommandoGuildResolvable | null): string {
         if (guild instanceof Guild) return guild.id;
         if (guild === 'global' || guild === null) return 'global';
-        if (typeof guild === 'string' && !isNaN(+guild)) return guild;
-        throw new TypeError('Invalid guild specified. Must be a Guild instance, guild ID, "global", or null.');
+        if (typeof guild === 'string' && (!isNaN(+guild) || SettingProvider.isScopeID(guild))) return guild;
+        throw new TypeError(
+            'Invalid guild specified. Must be a Guild instance, guild ID, scope ID, "global", or null.'
+        );
+    }
+
+    /**
+     * Obtains the settings scope ID of a channel
+     * @param channel - Channel to get the scope ID of
+     */
+    public static getChannelScopeID(channel: Channel | Snowflake): SettingScopeID {
+        return `channel:${typeof channel === 'string' ? channel : channel.id}`;
+    }
+
+    /**
+     * Obtains the settings scope ID of a user
+     * @param user - User to get the scope ID of
+     */
+    public static getUserScopeID(user: GuildMember | Snowflake | User): SettingScopeID {
+        return `user:${typeof user === 'string' ? user : user.id}`;
+    }
+
+    /**
+     * Checks whether an ID is a channel or user scope ID
+     * @param id - ID to check
+     */
+    public static isScopeID(id: string): id is SettingScopeID {
+        return /^(?:channel|user):\d+$/.test(id);
     }
 }
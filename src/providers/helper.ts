@@ -1,28 +1,48 @@
+import { Channel, GuildMember, Snowflake, User } from 'discord.js';
 import CommandoClient from '../client';
 import CommandoGuild from '../extensions/guild';
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-import type SettingProvider from './base';
+import SettingProvider, { SettingScopeID } from './base';
 
 type DefaultSettingProvider = SettingProvider<Record<string, unknown>>;
 
-/** Helper class to use {@link SettingProvider} methods for a specific Guild */
+/** Helper class to use {@link SettingProvider} methods for a specific Guild, channel or user */
 export default class GuildSettingsHelper {
     /** Client to use the provider of */
     declare public readonly client: CommandoClient;
     /** Guild the settings are for */
     public guild: CommandoGuild | null;
+    /** Channel or user scope the settings are for, instead of the guild */
+    public scope: SettingScopeID | null;
 
     /**
      * @param client - Client to use the provider of
      * @param guild - Guild the settings are for
+     * @param scope - Channel or user scope the settings are for, instead of the guild
      */
-    protected constructor(client: CommandoClient, guild: CommandoGuild | null) {
+    protected constructor(client: CommandoClient, guild: CommandoGuild | null, scope: SettingScopeID | null = null) {
         Object.defineProperty(this, 'client', { value: client });
         this.guild = guild;
+        this.scope = scope;
     }
 
     /**
-     * Gets a setting in the guild
+     * Creates a helper for the settings of a channel
+     * @param channel - Channel the settings are for
+     */
+    public forChannel(channel: Channel | Snowflake): GuildSettingsHelper {
+        return new GuildSettingsHelper(this.client, this.guild, SettingProvider.getChannelScopeID(channel));
+    }
+
+    /**
+     * Creates a helper for the settings of a user
+     * @param user - User the settings are for
+     */
+    public forUser(user: GuildMember | Snowflake | User): GuildSettingsHelper {
+        return new GuildSettingsHelper(this.client, this.guild, SettingProvider.getUserScopeID(user));
+    }
+
+    /**
+     * Gets a setting in the guild, or the channel or user scope
      * @param key - Name of the setting
      * @param defaultValue - Value to default to if the setting isn't set
      * @see {@link SettingProvider.get SettingProvider#get}
@@ -30,20 +50,38 @@ export default class GuildSettingsHelper {
     public get<T>(key: string, defaultValue?: T): T {
         const provider = this.client.provider as DefaultSettingProvider | null;
         if (!provider) throw new Error('No settings provider is available.');
-        return provider.get(this.guild, key, defaultValue) as T;
+        return provider.get(this.scope ?? this.guild, key, defaultValue) as T;
+    }
+
+    /**
+     * Gets a setting from the most specific scope it's set in: the channel first, then the guild, and lastly
+     * the global settings
+     * @param key - Name of the setting
+     * @param channel - Channel to look the setting up in first
+     * @param defaultValue - Value to default to if the setting isn't set in any of the scopes
+     * @see {@link SettingProvider.resolve SettingProvider#resolve}
+     */
+    public resolve<T>(key: string, channel?: Channel | Snowflake | null, defaultValue?: T): T {
+        const provider = this.client.provider as DefaultSettingProvider | null;
+        if (!provider) throw new Error('No settings provider is available.');
+        return provider.resolve({ channel, guild: this.guild }, key, defaultValue) as T;
     }
 
     /**
-     * Sets a setting for the guild
+     * Sets a setting for the guild, or the channel or user scope. The guild of a channel scope is recorded, so the
+     * channel's settings are deleted along with the guild's data.
      * @param key - Name of the setting
      * @param value - Value of the setting
      * @returns New value of the setting
      * @see {@link SettingProvider.set SettingProvider#set}
      */
-    public set<T>(key: string, value: T): Promise<T> {
+    public async set<T>(key: string, value: T): Promise<T> {
         const provider = this.client.provider as DefaultSettingProvider | null;
         if (!provider) throw new Error('No settings provider is available.');
-        return provider.set(this.guild, key, value) as Promise<T>;
+        const { guild, scope } = this;
+        const stored = await provider.set(scope ?? guild, key, value) as T;
+        if (guild && scope?.startsWith('channel:')) await provider.setChannelGuild(scope.split(':')[1], guild);
+        return stored;
     }
 
     /**
@@ -55,7 +93,7 @@ export default class GuildSettingsHelper {
     public remove<T>(key: string): Promise<T> {
         const provider = this.client.provider as DefaultSettingProvider | null;
         if (!provider) throw new Error('No settings provider is available.');
-        return provider.remove(this.guild, key) as Promise<T>;
+        return Promise.resolve(provider.remove(this.scope ?? this.guild, key) as T);
     }
 
     /**
@@ -64,6 +102,6 @@ export default class GuildSettingsHelper {
      */
     public async clear(): Promise<void> {
         if (!this.client.provider) throw new Error('No settings provider is available.');
-        await this.client.provider.clear(this.guild);
+        await this.client.provider.clear(this.scope ?? this.guild);
     }
 }
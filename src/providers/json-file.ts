@@ -0,0 +1,191 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import { If } from 'discord.js';
+import SettingProvider, { DefaultSQLiteSettings, SettingProviderGet } from './base';
+import CommandoClient from '../client';
+import { CommandoGuildResolvable } from '../discord.overrides';
+import { Nullable } from '../util';
+
+/** Uses a JSON file to store settings with guilds */
+export default class JSONFileSettingProvider<
+    Ready extends boolean = boolean,
+    Settings extends DefaultSQLiteSettings = DefaultSQLiteSettings
+> extends SettingProvider<Settings> {
+    /**
+     * Client that the provider is for (set once the client is ready,
+     * after using {@link CommandoClient.setProvider CommandoClient#setProvider})
+     */
+    declare public client: If<Ready, CommandoClient<true>>;
+    /** Path of the file that will be used for storing/retrieving settings */
+    public file: string;
+    /** How long to wait after the last change before writing the file (in milliseconds) */
+    public flushDelay: number;
+    /** Timeout of the pending write, if there are unsaved changes */
+    protected flushTimeout: NodeJS.Timeout | null;
+    /** The last write of the file, which the next one waits for */
+    protected flushing: Promise<void>;
+
+    /**
+     * @param file - Path of the file for the provider
+     * @param flushDelay - How long to wait after the last change before writing the file (in milliseconds)
+     */
+    public constructor(file: string, flushDelay = 1000) {
+        super();
+
+        this.file = file;
+        this.flushDelay = flushDelay;
+        this.flushTimeout = null;
+        this.flushing = Promise.resolve();
+    }
+
+    public isReady(): this is JSONFileSettingProvider<true, Settings> {
+        return !!this.client;
+    }
+
+    public async init(client: CommandoClient<true>): Promise<void> {
+        this.client = client as If<Ready, CommandoClient<true>>;
+
+        // Load all settings
+        const stored = await this.read();
+        let migrated = false;
+        for (const [guild, guildStored] of Object.entries(stored)) {
+            const loaded = this.loadStoredSettings(guild, guildStored);
+            if (!loaded) {
+                client.emit('warn', `JSONFileSettingProvider couldn't parse the settings stored for guild ${guild}.`);
+                continue;
+            }
+
+            const { settings } = loaded;
+            migrated ||= loaded.migrated;
+            this.settings.set(guild, settings);
+            if (guild !== 'global' && !client.guilds.cache.has(guild)) continue;
+            this.setupGuild(guild, settings);
+        }
+
+        // Store the migrated settings
+        if (migrated) await this.flush();
+
+        // Listen for changes
+        this.setupListeners(client);
+    }
+
+    public async destroy(): Promise<void> {
+        // Remove all listeners from the client
+        this.removeListeners();
+
+        // Write any unsaved changes
+        if (this.flushTimeout) await this.flush();
+        else await this.flushing;
+    }
+
+    public get<K extends keyof Settings, Default extends Settings[K]>(
+        guild: Nullable<CommandoGuildResolvable>, key: K, defaultValue?: Default
+    ): SettingProviderGet<Settings[K], Default> {
+        const settings = this.settings.get(SettingProvider.getGuildID(guild ?? null));
+        return (settings?.[key] ?? defaultValue ?? this.getDefaultSetting(key)) as SettingProviderGet<Settings[K], Default>;
+    }
+
+    public set<K extends keyof Settings>(
+        guild: Nullable<CommandoGuildResolvable>, key: K, value: Settings[K]
+    ): Settings[K] {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        this.validateSetting(guild, key, value);
+        let settings = this.settings.get(guild);
+        if (!settings) {
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            settings = {} as Settings;
+            this.settings.set(guild, settings);
+        }
+
+        settings[key] = value;
+        this.scheduleFlush();
+        this.syncChange(guild, key, value);
+        return value;
+    }
+
+    public remove<K extends keyof Settings>(
+        guild: Nullable<CommandoGuildResolvable>, key: K
+    ): Settings[K] | undefined {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        const settings = this.settings.get(guild);
+        if (!settings || typeof settings[key] === 'undefined') return;
+
+        const value = settings[key];
+        // @ts-expect-error: setting the value to undefined is intended behaviour
+        settings[key] = undefined;
+        this.scheduleFlush();
+        this.syncChange(guild, key);
+        return value;
+    }
+
+    public clear(guild: Nullable<CommandoGuildResolvable>): void {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        if (!this.settings.has(guild)) return;
+        this.settings.delete(guild);
+        this.scheduleFlush();
+        this.syncChange(guild, null);
+    }
+
+    /**
+     * Writes all settings to the file right away, cancelling the pending write. The settings are written to a
+     * temporary file first, which then replaces the actual one, so the file is never left half-written.
+     */
+    public async flush(): Promise<void> {
+        if (this.flushTimeout) {
+            clearTimeout(this.flushTimeout);
+            this.flushTimeout = null;
+        }
+
+        const { file } = this;
+        const settings = [...this.settings].map(([guild, guildSettings]) =>
+            [guild, this.serializeSettings(guildSettings)]
+        );
+        const data = JSON.stringify(Object.fromEntries(settings), null, 4);
+        const temporary = `${file}.tmp`;
+        // Writes are queued so an older one can't replace a newer one
+        const write = this.flushing.then(async () => {
+            await writeFile(temporary, data);
+            await rename(temporary, file);
+        });
+        this.flushing = write.catch(() => undefined);
+        return write;
+    }
+
+    /** Schedules a write of the file, postponing the pending one if any */
+    protected scheduleFlush(): void {
+        if (this.flushTimeout) clearTimeout(this.flushTimeout);
+        this.flushTimeout = setTimeout(() => {
+            this.flush().catch((err: Error) => {
+                this.client?.emit('warn', `JSONFileSettingProvider couldn't write the settings to ${this.file}: ${err}`);
+            });
+        }, this.flushDelay);
+    }
+
+    /**
+     * Reads the settings stored in the file. If it's missing or corrupted, the temporary file left by an
+     * interrupted write is used instead.
+     */
+    protected async read(): Promise<Record<string, unknown>> {
+        const { file } = this;
+        for (const path of [file, `${file}.tmp`]) {
+            // eslint-disable-next-line no-await-in-loop
+            const data = await readFile(path, 'utf8').catch(() => null);
+            if (data === null) continue;
+
+            const stored = parseSettings(data);
+            if (stored) return stored;
+            this.client?.emit('warn', `JSONFileSettingProvider couldn't parse the settings stored in ${path}.`);
+        }
+
+        return {};
+    }
+}
+
+function parseSettings(data: string): Record<string, unknown> | null {
+    try {
+        const parsed = JSON.parse(data);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null;
+        return parsed;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,102 @@
+import { If } from 'discord.js';
+import SettingProvider, { DefaultSQLiteSettings, SettingProviderGet } from './base';
+import CommandoClient from '../client';
+import { CommandoGuildResolvable } from '../discord.overrides';
+import { Nullable } from '../util';
+
+/** Stores settings in memory. They are lost on restart, and only shared across shards by the client's sync transport. */
+export default class InMemorySettingProvider<
+    Ready extends boolean = boolean,
+    Settings extends DefaultSQLiteSettings = DefaultSQLiteSettings
+> extends SettingProvider<Settings> {
+    /**
+     * Client that the provider is for (set once the client is ready,
+     * after using {@link CommandoClient.setProvider CommandoClient#setProvider})
+     */
+    declare public client: If<Ready, CommandoClient<true>>;
+
+    /**
+     * @param settings - Settings to start with, mapped by guild ID (or 'global')
+     */
+    public constructor(settings: Record<string, Settings> = {}) {
+        super();
+
+        for (const [guild, guildSettings] of Object.entries(settings)) this.settings.set(guild, guildSettings);
+    }
+
+    public isReady(): this is InMemorySettingProvider<true, Settings> {
+        return !!this.client;
+    }
+
+    public init(client: CommandoClient<true>): void {
+        this.client = client as If<Ready, CommandoClient<true>>;
+
+        // Load the initial settings
+        for (const [guild, stored] of this.settings) {
+            const loaded = this.loadStoredSettings(guild, stored);
+            if (!loaded) {
+                this.settings.delete(guild);
+                client.emit('warn', `InMemorySettingProvider couldn't parse the settings given for guild ${guild}.`);
+                continue;
+            }
+
+            const { settings } = loaded;
+            this.settings.set(guild, settings);
+            if (guild !== 'global' && !client.guilds.cache.has(guild)) continue;
+            this.setupGuild(guild, settings);
+        }
+
+        // Listen for changes
+        this.setupListeners(client);
+    }
+
+    public destroy(): void {
+        // Remove all listeners from the client
+        this.removeListeners();
+    }
+
+    public get<K extends keyof Settings, Default extends Settings[K]>(
+        guild: Nullable<CommandoGuildResolvable>, key: K, defaultValue?: Default
+    ): SettingProviderGet<Settings[K], Default> {
+        const settings = this.settings.get(SettingProvider.getGuildID(guild ?? null));
+        return (settings?.[key] ?? defaultValue ?? this.getDefaultSetting(key)) as SettingProviderGet<Settings[K], Default>;
+    }
+
+    public set<K extends keyof Settings>(
+        guild: Nullable<CommandoGuildResolvable>, key: K, value: Settings[K]
+    ): Settings[K] {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        this.validateSetting(guild, key, value);
+        let settings = this.settings.get(guild);
+        if (!settings) {
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            settings = {} as Settings;
+            this.settings.set(guild, settings);
+        }
+
+        settings[key] = value;
+        this.syncChange(guild, key, value);
+        return value;
+    }
+
+    public remove<K extends keyof Settings>(
+        guild: Nullable<CommandoGuildResolvable>, key: K
+    ): Settings[K] | undefined {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        const settings = this.settings.get(guild);
+        if (!settings || typeof settings[key] === 'undefined') return;
+
+        const value = settings[key];
+        // @ts-expect-error: setting the value to undefined is intended behaviour
+        settings[key] = undefined;
+        this.syncChange(guild, key);
+        return value;
+    }
+
+    public clear(guild: Nullable<CommandoGuildResolvable>): void {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        if (!this.settings.has(guild)) return;
+        this.settings.delete(guild);
+        this.syncChange(guild, null);
+    }
+}
@@ -0,0 +1,144 @@
+import SettingProvider from './base';
+
+/** A setting that has a different value in each provider */
+export interface SettingsMigrationConflict {
+    /** Guild ID, scope ID (or 'global') the setting is for */
+    guild: string;
+    /** Key of the setting */
+    key: string;
+    /** Value in the source provider */
+    source: unknown;
+    /** Value in the target provider */
+    target: unknown;
+}
+
+/** Options for {@link SettingsMigrator.migrate SettingsMigrator#migrate} */
+export interface SettingsMigrationOptions {
+    /**
+     * Whether to only report what would be copied, without changing the target provider
+     * @default false
+     */
+    dryRun?: boolean;
+    /**
+     * Whether to replace the settings that already have a different value in the target provider
+     * @default false
+     */
+    overwrite?: boolean;
+}
+
+/** Result of a {@link SettingsMigrator.migrate SettingsMigrator#migrate} run */
+export interface SettingsMigrationReport {
+    /** Whether it was a dry run, so nothing was actually copied */
+    dryRun: boolean;
+    /** Amount of guilds and scopes (including 'global') read from the source provider */
+    guilds: number;
+    /** Amount of settings copied (or that would be copied) to the target provider */
+    copied: number;
+    /** Amount of settings the target provider already had with the same value */
+    unchanged: number;
+    /** Settings that already had a different value in the target provider */
+    conflicts: SettingsMigrationConflict[];
+}
+
+/** Copies all the guild, scope and global settings from one {@link SettingProvider} into another */
+export default class SettingsMigrator {
+    /** Provider to copy the settings from */
+    public source: SettingProvider;
+    /** Provider to copy the settings into */
+    public target: SettingProvider;
+
+    /**
+     * @param source - Provider to copy the settings from
+     * @param target - Provider to copy the settings into
+     */
+    public constructor(source: SettingProvider, target: SettingProvider) {
+        if (!(source instanceof SettingProvider)) throw new TypeError('Source must be a SettingProvider.');
+        if (!(target instanceof SettingProvider)) throw new TypeError('Target must be a SettingProvider.');
+        if (source === target) throw new Error('Source and target must be different providers.');
+
+        this.source = source;
+        this.target = target;
+    }
+
+    /**
+     * Copies the settings one guild at a time, waiting for the target provider to store each of them. Settings that
+     * have a different value in the target provider are reported as conflicts, and only replaced with `overwrite`.
+     * @param options - Options for the migration
+     */
+    public async migrate(options: SettingsMigrationOptions = {}): Promise<SettingsMigrationReport> {
+        const { dryRun = false, overwrite = false } = options;
+        const { target } = this;
+        const report: SettingsMigrationReport = {
+            dryRun,
+            guilds: 0,
+            copied: 0,
+            unchanged: 0,
+            conflicts: [],
+        };
+
+        for (const [guild, settings] of this.entries()) {
+            report.guilds++;
+            for (const [key, value] of settings) {
+                const existing = this.getTargetSetting(guild, key);
+                if (isSameSetting(value, existing)) {
+                    report.unchanged++;
+                    continue;
+                }
+
+                const conflicting = typeof existing !== 'undefined';
+                if (conflicting) report.conflicts.push({ guild, key, source: value, target: existing });
+                if (conflicting && !overwrite) continue;
+
+                report.copied++;
+                if (dryRun) continue;
+                // eslint-disable-next-line no-await-in-loop
+                await target.set(guild, key as never, value as never);
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Compares both providers, looking for settings of the source one that the target one doesn't have the same
+     * value of
+     * @returns The mismatched settings, or an empty array if the target provider has all of them
+     */
+    public verify(): SettingsMigrationConflict[] {
+        const mismatches: SettingsMigrationConflict[] = [];
+        for (const [guild, settings] of this.entries()) {
+            for (const [key, value] of settings) {
+                const existing = this.getTargetSetting(guild, key);
+                if (isSameSetting(value, existing)) continue;
+                mismatches.push({ guild, key, source: value, target: existing });
+            }
+        }
+
+        return mismatches;
+    }
+
+    /** Obtains the defined settings of the source provider, mapped by guild ID, scope ID (or 'global') */
+    protected entries(): Array<[string, Array<[string, unknown]>]> {
+        for (const provider of [this.source, this.target]) {
+            if (!provider.client) throw new Error(`${provider.constructor.name} must be ready first.`);
+        }
+
+        return [...this.source['settings']].map(([guild, settings]) => [
+            guild,
+            Object.entries(settings).filter(([, value]) => typeof value !== 'undefined'),
+        ]);
+    }
+
+    /**
+     * Obtains the value a setting has in the target provider, without falling back to any default
+     * @param guild - Guild ID, scope ID (or 'global') the setting is for
+     * @param key - Key of the setting
+     */
+    protected getTargetSetting(guild: string, key: string): unknown {
+        return (this.target['settings'].get(guild) as Record<string, unknown> | undefined)?.[key];
+    }
+}
+
+function isSameSetting(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,35 @@
+import { cloneDeep } from 'lodash';
+import { MongoSettingsCollection, MongoSettingsDocument } from './mongo';
+
+/**
+ * Keeps the documents of a {@link MongoSettingProvider} in memory, standing in for a MongoDB collection where there
+ * is no server to connect to, like in tests. Documents are copied in and out, as if they were sent to the server.
+ */
+export default class InMemoryMongoSettingsCollection implements MongoSettingsCollection {
+    /** The stored documents, mapped by their ID */
+    public documents: Map<string, MongoSettingsDocument<object>>;
+
+    /**
+     * @param documents - Documents to start with
+     */
+    public constructor(documents: Array<MongoSettingsDocument<object>> = []) {
+        this.documents = new Map(documents.map(doc => [doc._id, cloneDeep(doc)]));
+    }
+
+    public find(): { toArray(): Promise<Array<MongoSettingsDocument<object>>> } {
+        const documents = [...this.documents.values()].map(doc => cloneDeep(doc));
+        return {
+            toArray: async (): Promise<Array<MongoSettingsDocument<object>>> => documents,
+        };
+    }
+
+    public async replaceOne(
+        filter: Pick<MongoSettingsDocument, '_id'>, replacement: MongoSettingsDocument<object>
+    ): Promise<void> {
+        this.documents.set(filter._id, cloneDeep({ ...replacement, _id: filter._id }));
+    }
+
+    public async deleteOne(filter: Pick<MongoSettingsDocument, '_id'>): Promise<void> {
+        this.documents.delete(filter._id);
+    }
+}
@@ -0,0 +1,170 @@
+import mongoose from 'mongoose';
+import { If } from 'discord.js';
+import SettingProvider, { DefaultSQLiteSettings, SettingProviderGet } from './base';
+import CommandoClient from '../client';
+import { CommandoGuildResolvable } from '../discord.overrides';
+import { Nullable } from '../util';
+
+/** A settings document stored by the {@link MongoSettingProvider} */
+export interface MongoSettingsDocument<Settings extends object = DefaultSQLiteSettings> {
+    /** ID of the guild the settings are for, or 'global' */
+    _id: string;
+    /** Settings of the guild */
+    settings: Settings;
+}
+
+/**
+ * The parts of a MongoDB collection used by the {@link MongoSettingProvider}. Both native and mongoose collections
+ * satisfy it, and so does the {@link InMemoryMongoSettingsCollection}.
+ */
+export interface MongoSettingsCollection {
+    /** Finds all documents matching the filter */
+    find(filter: Record<string, never>): { toArray(): Promise<unknown[]> };
+    /** Replaces a single document, inserting it if it doesn't exist */
+    replaceOne(
+        filter: Pick<MongoSettingsDocument, '_id'>, replacement: MongoSettingsDocument, options: { upsert: true }
+    ): Promise<unknown>;
+    /** Deletes a single document */
+    deleteOne(filter: Pick<MongoSettingsDocument, '_id'>): Promise<unknown>;
+}
+
+/** Uses a MongoDB collection to store settings with guilds */
+export default class MongoSettingProvider<
+    Ready extends boolean = boolean,
+    Settings extends DefaultSQLiteSettings = DefaultSQLiteSettings
+> extends SettingProvider<Settings> {
+    /**
+     * Client that the provider is for (set once the client is ready,
+     * after using {@link CommandoClient.setProvider CommandoClient#setProvider})
+     */
+    declare public client: If<Ready, CommandoClient<true>>;
+    /** Collection that will be used for storing/retrieving settings */
+    public collection: MongoSettingsCollection;
+    /** Connection the collection belongs to, if it's the default one, so the settings are loaded once it's open */
+    protected connection: mongoose.Connection | null;
+
+    /**
+     * @param collection - Collection for the provider. Defaults to the `settings` collection of the mongoose
+     * connection made by the client, in which case the settings are loaded once the connection is open
+     */
+    public constructor(collection?: MongoSettingsCollection) {
+        super();
+
+        this.connection = collection ? null : mongoose.connection;
+        this.collection = collection ?? mongoose.connection.collection('settings');
+    }
+
+    public isReady(): this is MongoSettingProvider<true, Settings> {
+        return !!this.client;
+    }
+
+    public async init(client: CommandoClient<true>): Promise<void> {
+        this.client = client as If<Ready, CommandoClient<true>>;
+
+        // The provider is initialized along with the database connection, and mongoose can't query until it's open
+        await this.waitForConnection();
+
+        // Load all settings
+        const documents = await this.collection.find({}).toArray() as Array<MongoSettingsDocument<Settings>>;
+        const migrated: string[] = [];
+        for (const { _id: guild, settings: stored } of documents) {
+            const loaded = this.loadStoredSettings(guild, stored);
+            if (!loaded) {
+                client.emit('warn', `MongoSettingProvider couldn't parse the settings stored for guild ${guild}.`);
+                continue;
+            }
+
+            const { settings } = loaded;
+            if (loaded.migrated) migrated.push(guild);
+            this.settings.set(guild, settings);
+            if (guild !== 'global' && !client.guilds.cache.has(guild)) continue;
+            this.setupGuild(guild, settings);
+        }
+
+        // Store the migrated settings
+        await Promise.all(migrated.map(guild => this.save(guild, this.settings.get(guild) as Settings)));
+
+        // Listen for changes
+        this.setupListeners(client);
+    }
+
+    public destroy(): void {
+        // Remove all listeners from the client
+        this.removeListeners();
+    }
+
+    public get<K extends keyof Settings, Default extends Settings[K]>(
+        guild: Nullable<CommandoGuildResolvable>, key: K, defaultValue?: Default
+    ): SettingProviderGet<Settings[K], Default> {
+        const settings = this.settings.get(SettingProvider.getGuildID(guild ?? null));
+        return (settings?.[key] ?? defaultValue ?? this.getDefaultSetting(key)) as SettingProviderGet<Settings[K], Default>;
+    }
+
+    public async set<K extends keyof Settings>(
+        guild: Nullable<CommandoGuildResolvable>, key: K, value: Settings[K]
+    ): Promise<Settings[K]> {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        this.validateSetting(guild, key, value);
+        let settings = this.settings.get(guild);
+        if (!settings) {
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            settings = {} as Settings;
+            this.settings.set(guild, settings);
+        }
+
+        settings[key] = value;
+        await this.save(guild, settings);
+        this.syncChange(guild, key, value);
+        return value;
+    }
+
+    public async remove<K extends keyof Settings>(
+        guild: Nullable<CommandoGuildResolvable>, key: K
+    ): Promise<Settings[K] | undefined> {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        const settings = this.settings.get(guild);
+        if (!settings || typeof settings[key] === 'undefined') return;
+
+        const value = settings[key];
+        // @ts-expect-error: setting the value to undefined is intended behaviour
+        settings[key] = undefined;
+        await this.save(guild, settings);
+        this.syncChange(guild, key);
+        return value;
+    }
+
+    public async clear(guild: Nullable<CommandoGuildResolvable>): Promise<void> {
+        guild = SettingProvider.getGuildID(guild ?? null);
+        if (!this.settings.has(guild)) return;
+        this.settings.delete(guild);
+        await this.collection.deleteOne({ _id: guild });
+        this.syncChange(guild, null);
+    }
+
+    /** Waits for the connection of the default collection to be open, if it isn't yet */
+    protected async waitForConnection(): Promise<void> {
+        const { connection } = this;
+        if (!connection || connection.readyState === mongoose.ConnectionStates.connected) return;
+
+        await new Promise<void>((resolve, reject) => {
+            connection.once('connected', () => {
+                connection.off('error', reject);
+                resolve();
+            });
+            connection.once('error', reject);
+        });
+    }
+
+    /**
+     * Stores all settings of a guild in the collection
+     * @param guild - Guild ID to store the settings of (or 'global')
+     * @param settings - Settings to store
+     */
+    protected async save(guild: string, settings: Settings): Promise<void> {
+        // Removed settings are kept as undefined, which MongoDB would store as null
+        const stored = Object.fromEntries(
+            Object.entries(this.serializeSettings(settings)).filter(([, value]) => typeof value !== 'undefined')
+        ) as Settings;
+        await this.collection.replaceOne({ _id: guild }, { _id: guild, settings: stored }, { upsert: true });
+    }
+}
@@ -0,0 +1,211 @@
+import { DefaultSQLiteSettings } from './base';
+
+/** Type of a setting's value, as returned by `typeof`, plus `array` */
+export type SettingValueType =
+    | 'array'
+    | 'boolean'
+    | 'number'
+    | 'object'
+    | 'string';
+
+/** Definition of a setting in a {@link SettingsSchema} */
+export interface SettingDefinition<T = unknown> {
+    /** Type(s) the value can be of */
+    type: SettingValueType | SettingValueType[];
+    /**
+     * Whether the value can be `null`
+     * @default false
+     */
+    nullable?: boolean;
+    /** Value to use when the setting isn't set */
+    default?: T;
+    /**
+     * Validator function for the value, once its type has been checked
+     * @param value - Value to validate
+     * @param guild - ID of the guild the setting is for (or 'global')
+     * @return Whether the value is valid, or an error message
+     */
+    validate?: (value: T, guild: string) => boolean | string;
+}
+
+/**
+ * Migrates stored settings to the next schema version
+ * @param settings - The stored settings of a guild
+ * @param guild - ID of the guild the settings are for (or 'global')
+ * @return The migrated settings
+ */
+export type SettingsMigration = (settings: Record<string, unknown>, guild: string) => Record<string, unknown>;
+
+/** Information for a settings schema */
+export interface SettingsSchemaInfo<Settings extends object = DefaultSQLiteSettings> {
+    /**
+     * Current version of the schema. Stored settings of a lower version are migrated when the provider initializes.
+     * @default 1
+     */
+    version?: number;
+    /**
+     * Definitions of the settings, mapped by key. A key ending with `*` applies to all the keys starting with the rest
+     * of it, such as `cmd-*`. The `prefix`, `prefixes`, `guild`, `cmd-*` and `grp-*` settings are already
+     * defined.
+     */
+    settings?: { [K in keyof Settings]?: SettingDefinition<Exclude<Settings[K], undefined>> }
+        & { [key: `${string}*`]: SettingDefinition | undefined };
+    /** Migrations to each version of the schema, mapped by the version they migrate to */
+    migrations?: Record<number, SettingsMigration>;
+}
+
+/** Definitions of the settings used by the framework itself */
+const defaultDefinitions: Record<string, SettingDefinition> = {
+    prefix: { type: 'string', nullable: true },
+    prefixes: {
+        type: 'array',
+        validate: (value): boolean | string => (value as unknown[]).every(prefix => typeof prefix === 'string')
+            || 'Setting "prefixes" must only contain strings.',
+    },
+    guild: { type: 'string' },
+    'cmd-*': { type: 'boolean' },
+    'grp-*': { type: 'boolean' },
+};
+
+/** Declares the settings stored by a {@link SettingProvider}, their defaults, and how to migrate them */
+export default class SettingsSchema<Settings extends object = DefaultSQLiteSettings> {
+    /** Settings key the schema version is stored under */
+    public static readonly versionKey = '__version';
+
+    /** Current version of the schema */
+    public version: number;
+    /** Definitions of the settings, mapped by key */
+    public definitions: Map<string, SettingDefinition>;
+    /** Migrations to each version of the schema, mapped by the version they migrate to */
+    public migrations: Map<number, SettingsMigration>;
+
+    /**
+     * @param info - The schema information
+     */
+    public constructor(info: SettingsSchemaInfo<Settings> = {}) {
+        SettingsSchema.validateInfo(info);
+
+        this.version = info.version ?? 1;
+        this.definitions = new Map(Object.entries({
+            ...defaultDefinitions,
+            ...info.settings,
+        }) as Array<[string, SettingDefinition]>);
+        this.migrations = new Map(Object.entries(info.migrations ?? {}).map(([version, migration]) =>
+            [+version, migration]
+        ));
+    }
+
+    /**
+     * Resolves the definition of a setting
+     * @param key - Key of the setting
+     */
+    public resolveDefinition(key: string): SettingDefinition | null {
+        const definition = this.definitions.get(key);
+        if (definition) return definition;
+
+        // The longest matching wildcard is the most specific one
+        let match: string | null = null;
+        for (const pattern of this.definitions.keys()) {
+            if (!pattern.endsWith('*') || !key.startsWith(pattern.slice(0, -1))) continue;
+            if (!match || pattern.length > match.length) match = pattern;
+        }
+        return match ? this.definitions.get(match) ?? null : null;
+    }
+
+    /**
+     * Gets the default value of a setting
+     * @param key - Key of the setting
+     */
+    public getDefault<K extends keyof Settings>(key: K): Settings[K] | undefined {
+        return this.resolveDefinition(key as string)?.default as Settings[K] | undefined;
+    }
+
+    /**
+     * Validates the value of a setting, throwing an error if it's invalid. Settings without a definition are
+     * always valid.
+     * @param key - Key of the setting
+     * @param value - Value to validate
+     * @param guild - ID of the guild the setting is for (or 'global')
+     */
+    public validate<K extends keyof Settings>(key: K, value: Settings[K], guild: string): void {
+        const definition = this.resolveDefinition(key as string);
+        if (!definition || typeof value === 'undefined') return;
+
+        if (value === null) {
+            if (definition.nullable) return;
+            throw new TypeError(`Setting "${String(key)}" can't be null.`);
+        }
+
+        const types = Array.isArray(definition.type) ? definition.type : [definition.type];
+        const type = Array.isArray(value) ? 'array' : typeof value;
+        if (!types.some(t => t === type)) {
+            throw new TypeError(`Setting "${String(key)}" must be of type ${types.join(' or ')}, got ${type}.`);
+        }
+
+        const valid = definition.validate?.(value, guild) ?? true;
+        if (valid !== true) {
+            throw new RangeError(typeof valid === 'string' ? valid : `Invalid value for setting "${String(key)}".`);
+        }
+    }
+
+    /**
+     * Runs the migrations of all the versions above the one the settings were stored with
+     * @param settings - The stored settings, with or without the schema version
+     * @param guild - ID of the guild the settings are for (or 'global')
+     * @return The migrated settings, without the schema version, and whether any migration ran
+     */
+    public migrate(settings: Record<string, unknown>, guild: string): { settings: Settings; migrated: boolean } {
+        const { [SettingsSchema.versionKey]: storedVersion, ...migrated } = settings;
+        const from = typeof storedVersion === 'number' ? storedVersion : 0;
+        if (from > this.version) {
+            throw new RangeError(
+                `Settings of ${guild} were stored with schema version ${from}, above the current ${this.version}.`
+            );
+        }
+
+        let current = migrated;
+        const versions = [...this.migrations.keys()].filter(v => v > from && v <= this.version).sort((a, b) => a - b);
+        for (const version of versions) {
+            current = this.migrations.get(version)?.(current, guild) ?? current;
+        }
+
+        return {
+            settings: current as Settings,
+            migrated: from !== this.version,
+        };
+    }
+
+    /**
+     * Adds the schema version to settings about to be stored
+     * @param settings - Settings to store
+     */
+    public serialize(settings: Settings): Settings & { [SettingsSchema.versionKey]: number } {
+        return {
+            ...settings,
+            [SettingsSchema.versionKey]: this.version,
+        };
+    }
+
+    /**
+     * Validates the constructor parameters
+     * @param info - Info to validate
+     */
+    protected static validateInfo(info: SettingsSchemaInfo<object>): void {
+        if (typeof info !== 'object') throw new TypeError('Settings schema info must be an object.');
+        if ('version' in info && (!Number.isInteger(info.version) || (info.version as number) < 1)) {
+            throw new TypeError('Settings schema version must be a positive integer.');
+        }
+        if ('settings' in info && typeof info.settings !== 'object') {
+            throw new TypeError('Settings schema settings must be an object.');
+        }
+        if ('migrations' in info) {
+            if (typeof info.migrations !== 'object') {
+                throw new TypeError('Settings schema migrations must be an object.');
+            }
+            const invalid = Object.entries(info.migrations).find(([version, migration]) =>
+                !Number.isInteger(+version) || typeof migration !== 'function'
+            );
+            if (invalid) throw new TypeError(`Settings schema migration ${invalid[0]} must be a function.`);
+        }
+    }
+}
@@ -12,6 +12,7 @@ import { ArgumentTypeString } from './commands/argument';
 import Command, { APISlashCommand, CommandContext } from './commands/base';
 import CommandGroup from './commands/group';
 import CommandoGuild from './extensions/guild';
+import { CommandoAutocompleteInteraction, CommandoChatInputCommandInteraction } from './discord.overrides';
 import CommandoMessage from './extensions/message';
 import ArgumentType from './types/base';
 import Util, { Constructable, NonAbstractConstructable, Tuple } from './util';
@@ -59,6 +60,16 @@ export interface DefaultCommandsOptions {
      * @default true
      */
     commandState?: boolean;
+    /**
+     * Whether to register the built-in migrate-settings command (requires "commands" group and "boolean" type)
+     * @default true
+     */
+    migrateSettings?: boolean;
+    /**
+     * Whether to register the built-in user-data command (requires "util" group and "string", "user" and "boolean" types)
+     * @default true
+     */
+    userData?: boolean;
 }
 
 /** Object specifying which types to register. All default to `true` */
@@ -86,6 +97,18 @@ export type CommandGroupResolvable =
     | CommandGroup
     | string;
 
+/** Information used to create a {@link CommandGroup} */
+export interface CommandGroupInfo {
+    /** ID of the group */
+    id: string;
+    /** Name of the group */
+    name?: string;
+    /** Whether the group should be protected from disabling */
+    guarded?: boolean;
+    /** Whether the group's slash commands should be merged into a single one */
+    mergeSlashCommands?: boolean;
+}
+
 interface ApplicationCommandEntry {
     commands: Array<APIContextMenuCommand | APISlashCommand>;
     global: boolean;
@@ -121,7 +144,7 @@ export default class CommandoRegistry {
 
     /** Registers every global and guild application command available - this may only be called upon startup. */
     protected async registerApplicationCommands(): Promise<void> {
-        const { client, commands } = this;
+        const { client, commands, groups } = this;
         const { application, options, guilds } = client as CommandoClient<true>;
 
         const testAppGuild = await guilds.fetch(options.testAppGuild ?? '0').catch(() => null) as CommandoGuild | null;
@@ -131,10 +154,30 @@ export default class CommandoRegistry {
         ]).then(commands => commands[1].concat(commands[0] ?? new Collection()));
 
         const appCommandsToRegister = commands.mapValues<ApplicationCommandEntry>(command => ({
-            commands: Util.filterNullishItems([command.slashCommand, ...command.contextMenuCommands]),
+            commands: Util.filterNullishItems([
+                command.group.isSlashCommandMerged(command) ? null : command.slashCommand,
+                ...command.contextMenuCommands,
+            ]),
             global: !command.testAppCommand,
         }));
 
+        for (const group of groups.values()) {
+            const slashCommand = group.buildSlashCommand();
+            if (!slashCommand) continue;
+            const entry = appCommandsToRegister.get(group.id);
+            if (entry) {
+                if (entry.commands.some(command => 'description' in command)) {
+                    throw new Error(`The slash command of group "${group.id}" has the same name as a command's.`);
+                }
+                entry.commands.push(slashCommand);
+                continue;
+            }
+            appCommandsToRegister.set(group.id, {
+                commands: [slashCommand],
+                global: !group.commands.every(command => command.testAppCommand),
+            });
+        }
+
         await this.deleteUnusedApplicationCommands(appCommandsToRegister, registeredCommands);
         await Promise.all(appCommandsToRegister.map(entry =>
             this.registerApplicationCommandEntry(entry, testAppGuild, registeredCommands)
@@ -199,20 +242,29 @@ export default class CommandoRegistry {
     /**
      * Registers a single group
      * @param group - A CommandGroup instance
-     * or the constructor parameters (with ID, name, and guarded properties)
+     * or the constructor parameters (with ID, name, guarded and mergeSlashCommands properties)
      * @see {@link CommandoRegistry.registerGroups CommandoRegistry#registerGroups}
      */
-    public registerGroup(group: CommandGroup | { id: string; name?: string; guarded?: boolean }): this {
+    public registerGroup(group: CommandGroup | CommandGroupInfo): this {
         const { client, groups } = this;
 
         if (isConstructor(group, CommandGroup)) group = new group(client);
         else if (!(group instanceof CommandGroup)) {
-            group = new CommandGroup(client, group.id, group.name, group.guarded);
+            group = new CommandGroup(client, group.id, group.name, group.guarded, group.mergeSlashCommands);
         }
 
         const builtGroup = group as CommandGroup;
 
         const existing = groups.get(builtGroup.id);
+        if (!existing && builtGroup.mergeSlashCommands) {
+            const clashing = this.commands.find(cmd => cmd.name === builtGroup.id || cmd.aliases.includes(builtGroup.id));
+            if (clashing) {
+                throw new Error(
+                    `The slash command of group "${builtGroup.id}" would have the same name as the name/alias of the `
+                    + `command "${clashing.name}".`
+                );
+            }
+        }
         if (existing) {
             existing.name = builtGroup.name;
             client.emit('debug', `Group ${builtGroup.id} is already registered. Renamed it to "${builtGroup.name}".`);
@@ -227,15 +279,15 @@ export default class CommandoRegistry {
 
     /**
      * Registers multiple groups
-     * @param groups - An array of CommandGroup instances or the constructors parameters (with ID, name, and guarded
-     * properties).
+     * @param groups - An array of CommandGroup instances or the constructors parameters (with ID, name, guarded and
+     * mergeSlashCommands properties).
      * @example
      * registry.registerGroups([
      *     { id: 'fun', name: 'Fun' },
-     *     { id: 'mod', name: 'Moderation' }
+     *     { id: 'mod', name: 'Moderation', mergeSlashCommands: true }
      * ]);
      */
-    public registerGroups(groups: Array<CommandGroup | { id: string; name?: string; guarded?: boolean }>): this {
+    public registerGroups(groups: Array<CommandGroup | CommandGroupInfo>): this {
         if (!Array.isArray(groups)) throw new TypeError('Groups must be an array.');
         for (const group of groups) {
             this.registerGroup(group);
@@ -273,6 +325,13 @@ export default class CommandoRegistry {
         if (group.commands.some(cmd => cmd.memberName === memberName)) {
             throw new Error(`A command with the member name "${memberName}" is already registered in ${group.id}`);
         }
+        // Commands merged into their group's slash command don't register one of their own
+        const mergingGroup = groups.find(grp => grp.mergeSlashCommands && (grp.id === name || aliases.includes(grp.id)));
+        if (mergingGroup && !(mergingGroup === group && group.isSlashCommandMerged(command))) {
+            throw new Error(
+                `The name/alias of the command "${name}" is already used by the slash command of group "${mergingGroup.id}".`
+            );
+        }
         if (unknown && unknownCommand) throw new Error('An unknown command is already registered.');
 
         // Add the command
@@ -428,6 +487,10 @@ export default class CommandoRegistry {
                 require('./commands/commands/unload'),
             ]);
         }
+        if (commands.migrateSettings !== false) {
+            this.registerCommand(require('./commands/commands/migrate-settings'));
+        }
+        if (commands.userData !== false) this.registerCommand(require('./commands/util/user-data'));
         return this;
     }
 
@@ -588,6 +651,21 @@ export default class CommandoRegistry {
         throw new Error('Unable to resolve command.');
     }
 
+    /**
+     * Resolves the command that a slash command or autocomplete interaction is for, including the subcommands of
+     * groups with {@link CommandGroup.mergeSlashCommands CommandGroup#mergeSlashCommands} enabled
+     * @param interaction - The interaction to resolve the command of
+     * @return The resolved Command
+     */
+    public resolveSlashCommand(
+        interaction: CommandoAutocompleteInteraction | CommandoChatInputCommandInteraction
+    ): Command {
+        const { commandName, options } = interaction;
+        const group = this.groups.get(commandName);
+        if (!group?.mergeSlashCommands) return this.resolveCommand(commandName);
+        return this.resolveCommand(options.getSubcommandGroup(false) ?? options.getSubcommand());
+    }
+
     /**
      * Resolves a command file path from a command's group ID and memberName
      * @param group - ID of the command's group
@@ -0,0 +1,102 @@
+import { Awaitable } from 'discord.js';
+import CommandoClient from '../client';
+
+/** Whether a status is of a command or of a command group */
+export type CommandStatusType = 'commands' | 'groups';
+
+/**
+ * Keeps track of whether commands and groups are enabled, globally and in each guild. Statuses are cached in memory
+ * so they can be checked right away, and stored by {@link CommandStatusStore.save CommandStatusStore#save}.
+ */
+export default abstract class CommandStatusStore {
+    /** Client that is using the store */
+    declare public readonly client: CommandoClient;
+    /** Statuses of the commands and groups, mapped by guild ID (or 'global'), then by command name or group ID */
+    protected statuses: Map<string, Record<CommandStatusType, Map<string, boolean>>>;
+
+    public constructor() {
+        this.statuses = new Map();
+    }
+
+    /**
+     * Initializes the store. {@link CommandoClient} will automatically call this when it's constructed.
+     * @param client - Client that will be using the store
+     */
+    public init(client: CommandoClient): void {
+        Object.defineProperty(this, 'client', { value: client });
+    }
+
+    /**
+     * Obtains the status of a command or group
+     * @param type - Whether it's a command or a group
+     * @param guild - Guild ID to get the status in (or 'global')
+     * @param name - Name of the command or ID of the group
+     * @returns The status, or `undefined` if it was never set
+     */
+    public get(type: CommandStatusType, guild: string, name: string): boolean | undefined {
+        return this.statuses.get(guild)?.[type].get(name);
+    }
+
+    /**
+     * Sets the status of a command or group, storing it if it changed
+     * @param type - Whether it's a command or a group
+     * @param guild - Guild ID to set the status in (or 'global')
+     * @param name - Name of the command or ID of the group
+     * @param enabled - Whether the command or group is enabled
+     */
+    public set(type: CommandStatusType, guild: string, name: string, enabled: boolean): void {
+        const statuses = this.getStatuses(guild)[type];
+        if (statuses.get(name) === enabled) return;
+        statuses.set(name, enabled);
+
+        Promise.resolve()
+            .then(() => this.save(guild, type, name, enabled))
+            .catch((err: Error) => {
+                this.client.emit('warn', `${this.constructor.name} couldn't store the ${name} status in ${guild}: ${err}`);
+            });
+    }
+
+    /**
+     * Obtains the names of the commands, or IDs of the groups, that are disabled
+     * @param type - Whether to get the commands or the groups
+     * @param guild - Guild ID to get them in (or 'global')
+     */
+    public getDisabled(type: CommandStatusType, guild: string): string[] {
+        const statuses = this.statuses.get(guild)?.[type];
+        if (!statuses) return [];
+        return [...statuses].filter(([, enabled]) => !enabled).map(([name]) => name);
+    }
+
+    /**
+     * Obtains the names of the commands, or IDs of the groups, that are explicitly enabled
+     * @param type - Whether to get the commands or the groups
+     * @param guild - Guild ID to get them in (or 'global')
+     */
+    public getEnabled(type: CommandStatusType, guild: string): string[] {
+        const statuses = this.statuses.get(guild)?.[type];
+        if (!statuses) return [];
+        return [...statuses].filter(([, enabled]) => enabled).map(([name]) => name);
+    }
+
+    /**
+     * Obtains the statuses of a guild, creating them if they don't exist yet
+     * @param guild - Guild ID to get the statuses of (or 'global')
+     */
+    protected getStatuses(guild: string): Record<CommandStatusType, Map<string, boolean>> {
+        let statuses = this.statuses.get(guild);
+        if (!statuses) {
+            statuses = { commands: new Map(), groups: new Map() };
+            this.statuses.set(guild, statuses);
+        }
+        return statuses;
+    }
+
+    /**
+     * Stores a status that changed
+     * @param guild - Guild ID the status was set in (or 'global')
+     * @param type - Whether it's a command or a group
+     * @param name - Name of the command or ID of the group
+     * @param enabled - Whether the command or group is enabled
+     */
+    protected abstract save(guild: string, type: CommandStatusType, name: string, enabled: boolean): Awaitable<void>;
+}
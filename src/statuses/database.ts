@@ -0,0 +1,95 @@
+import CommandoClient from '../client';
+import { DisabledSchema, JSONIfySchema } from '../database/Schemas';
+import DatabaseManager from '../database/DatabaseManager';
+import CommandoGuild from '../extensions/guild';
+import CommandStatusStore from './base';
+
+/**
+ * Stores the disabled commands and groups in the database, through the `disabled` database managers of the client and of
+ * each guild. They are loaded once the client emits {@link CommandoClientEvents.databaseReady databaseReady}, and
+ * for the guilds that join later, once it emits {@link CommandoClientEvents.guildDataLoad guildDataLoad}.
+ * The saves of each guild are queued, so they're stored in the same order they were made.
+ */
+export default class DatabaseCommandStatusStore extends CommandStatusStore {
+    /** Saves that are still pending, mapped by guild ID (or 'global') */
+    protected saving: Map<string, Promise<void>>;
+
+    public constructor() {
+        super();
+        this.saving = new Map();
+    }
+
+    public override init(client: CommandoClient): void {
+        super.init(client);
+
+        client.once('databaseReady', readyClient => this.load(readyClient));
+        client.on('guildDataLoad', guild => {
+            for (const doc of guild.database.disabled.cache.values()) this.loadDocument(guild.id, doc);
+        });
+    }
+
+    /**
+     * Loads the statuses from the cached `disabled` documents of the client and of each guild
+     * @param client - Client whose database is ready
+     */
+    protected load(client: CommandoClient<true>): void {
+        for (const doc of client.database.disabled.cache.values()) {
+            this.loadDocument(doc.guild ?? 'global', doc);
+        }
+        for (const [guild, database] of client.databases) {
+            for (const doc of database.disabled.cache.values()) this.loadDocument(guild, doc);
+        }
+    }
+
+    /**
+     * Loads the statuses of a guild from its `disabled` document
+     * @param guild - Guild ID the document is for (or 'global')
+     * @param doc - The document
+     */
+    protected loadDocument(guild: string, doc: JSONIfySchema<DisabledSchema>): void {
+        const statuses = this.getStatuses(guild);
+        for (const name of doc.commands ?? []) statuses.commands.set(name, false);
+        for (const id of doc.groups ?? []) statuses.groups.set(id, false);
+        for (const name of doc.enabledCommands ?? []) statuses.commands.set(name, true);
+        for (const id of doc.enabledGroups ?? []) statuses.groups.set(id, true);
+    }
+
+    protected async save(guild: string): Promise<void> {
+        const previous = this.saving.get(guild) ?? Promise.resolve();
+        const saving = previous.catch(() => null).then(() => this.store(guild));
+        this.saving.set(guild, saving);
+
+        try {
+            await saving;
+        } finally {
+            if (this.saving.get(guild) === saving) this.saving.delete(guild);
+        }
+    }
+
+    /**
+     * Stores the current statuses of a guild in its `disabled` document, creating it if it doesn't exist
+     * @param guild - Guild ID to store the statuses of (or 'global')
+     */
+    protected async store(guild: string): Promise<void> {
+        const manager = this.getManager(guild);
+        if (!manager) return;
+
+        await manager.upsert({ global: guild === 'global' }, {
+            commands: this.getDisabled('commands', guild),
+            groups: this.getDisabled('groups', guild),
+            enabledCommands: this.getEnabled('commands', guild),
+            enabledGroups: this.getEnabled('groups', guild),
+        });
+    }
+
+    /**
+     * Obtains the database manager the statuses of a guild are stored with
+     * @param guild - Guild ID to get the manager of (or 'global')
+     */
+    protected getManager(guild: string): DatabaseManager<DisabledSchema> | null {
+        const { client } = this;
+        if (guild === 'global') return client.database.disabled;
+        const resolved = client.guilds.resolve(guild) as CommandoGuild | null;
+        return resolved?.database.disabled ?? null;
+    }
+}
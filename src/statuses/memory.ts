@@ -0,0 +1,11 @@
+import CommandStatusStore from './base';
+
+/**
+ * Keeps the statuses in memory only. They are lost on restart, unless a {@link SettingProvider} stores them as the
+ * `cmd-*` and `grp-*` settings.
+ */
+export default class MemoryCommandStatusStore extends CommandStatusStore {
+    protected save(): void {
+        // The statuses are already cached
+    }
+}
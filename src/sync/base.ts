@@ -0,0 +1,54 @@
+import { Awaitable, ShardClientUtil } from 'discord.js';
+import CommandoClient from '../client';
+import SettingProvider from '../providers/base';
+
+/** A change made to the settings of a {@link SettingProvider}, as sent to other shards */
+export interface SettingChange {
+    /** Guild ID, scope ID (or 'global') the change was made in */
+    guild: string;
+    /** Name of the changed setting, or `null` if all the settings were cleared */
+    key: string | null;
+    /** New value of the setting serialized as JSON, or `undefined` if it was removed */
+    value?: string;
+}
+
+/** Propagates the setting changes made in one shard to the others, so their providers stay up to date */
+export default abstract class SettingsSyncTransport {
+    /** Client that is using the transport */
+    declare public readonly client: CommandoClient;
+
+    /**
+     * Initializes the transport. {@link CommandoClient} will automatically call this when it's constructed.
+     * @param client - Client that will be using the transport
+     */
+    public init(client: CommandoClient): void {
+        Object.defineProperty(this, 'client', { value: client });
+    }
+
+    /**
+     * Sends a setting change to the shard that owns the guild, or to all the other shards if it's a global or
+     * scoped change
+     * @param change - The setting change
+     */
+    public abstract send(change: SettingChange): Awaitable<void>;
+
+    /**
+     * Applies a setting change received from another shard to the client's provider, without storing it or
+     * sending it again
+     * @param change - The setting change
+     */
+    public receive(change: SettingChange): void {
+        this.client.provider?.['applyChange'](change);
+    }
+
+    /**
+     * Obtains the shard a setting change has to be sent to
+     * @param guild - Guild ID, scope ID (or 'global') the change was made in
+     * @param shardCount - Total amount of shards
+     * @returns ID of the shard that owns the guild, or `null` if all shards need the change
+     */
+    protected static getTargetShard(guild: string, shardCount: number): number | null {
+        if (guild === 'global' || SettingProvider.isScopeID(guild)) return null;
+        return ShardClientUtil.shardIdForGuildId(guild, shardCount);
+    }
+}
@@ -0,0 +1,45 @@
+import SettingsSyncTransport, { SettingChange } from './base';
+
+/**
+ * Delivers setting changes between clients of the same process, each one standing in for a shard. Useful for
+ * testing the synchronization without a {@link ShardingManager}.
+ */
+export default class LocalSettingsSyncTransport extends SettingsSyncTransport {
+    /** ID of the shard this transport stands in for */
+    public readonly shardId: number;
+    /** Transports of all the shards, indexed by their shard ID */
+    public readonly shards: LocalSettingsSyncTransport[];
+
+    /**
+     * @param shards - Transports of the other shards, which this one gets added to
+     */
+    public constructor(shards: LocalSettingsSyncTransport[] = []) {
+        super();
+
+        this.shardId = shards.length;
+        this.shards = shards;
+        shards.push(this);
+    }
+
+    public send(change: SettingChange): void {
+        const { shards } = this;
+        const target = SettingsSyncTransport.getTargetShard(change.guild, shards.length);
+        const recipients = target !== null ? [shards[target]] : shards;
+
+        for (const shard of recipients) {
+            // Transports not in use by a client yet have nowhere to apply the change
+            if (shard === this || !shard.client) continue;
+            shard.receive(change);
+        }
+    }
+
+    /**
+     * Creates the connected transports of a group of shards
+     * @param count - Amount of shards
+     */
+    public static createShards(count: number): LocalSettingsSyncTransport[] {
+        const shards: LocalSettingsSyncTransport[] = [];
+        for (let i = 0; i < count; i++) new LocalSettingsSyncTransport(shards);
+        return shards;
+    }
+}
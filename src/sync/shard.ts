@@ -0,0 +1,35 @@
+import CommandoClient from '../client';
+import SettingsSyncTransport, { SettingChange } from './base';
+
+/** A setting change as broadcasted by the {@link ShardSettingsSyncTransport} */
+interface ShardSettingChange extends SettingChange {
+    /** IDs of the shards the change was made in */
+    origin: number[];
+}
+
+/**
+ * Sends setting changes to other shards through the {@link ShardClientUtil} of the client. The
+ * {@link CommandoClient} uses it by default when spawned by a {@link ShardingManager}.
+ */
+export default class ShardSettingsSyncTransport extends SettingsSyncTransport {
+    public async send(change: SettingChange): Promise<void> {
+        const { shard } = this.client;
+        if (!shard) return;
+
+        const target = SettingsSyncTransport.getTargetShard(change.guild, shard.count);
+        // The guild is owned by this same process
+        if (target !== null && shard.ids.includes(target)) return;
+
+        const context: ShardSettingChange = { ...change, origin: shard.ids };
+        // This function is serialized and evaluated in every target shard, so it can only use its arguments
+        const receive = (client: CommandoClient, message: ShardSettingChange): void => {
+            if (client.shard?.ids.some(id => message.origin.includes(id))) return;
+            client.settingsSync?.receive(message);
+        };
+
+        // @ts-expect-error: client type override
+        if (target !== null) await shard.broadcastEval(receive, { context, shard: target });
+        // @ts-expect-error: client type override
+        else await shard.broadcastEval(receive, { context });
+    }
+}
@@ -0,0 +1,54 @@
+import { Awaitable } from 'discord.js';
+import CommandoClient from '../client';
+import { Throttle } from '../commands/base';
+
+/** Stores the throttle objects of all commands, mapped by their bucket keys */
+export default abstract class ThrottleStore {
+    /** Client that is using the store */
+    declare public readonly client: CommandoClient;
+
+    /**
+     * Initializes the store. {@link CommandoClient} will automatically call this when it's constructed.
+     * @param client - Client that will be using the store
+     */
+    public init(client: CommandoClient): void {
+        Object.defineProperty(this, 'client', { value: client });
+    }
+
+    /**
+     * Obtains a throttle, if it exists and hasn't expired yet
+     * @param key - Bucket key of the throttle
+     */
+    public abstract get(key: string): Awaitable<Throttle | null>;
+
+    /**
+     * Creates or updates a throttle
+     * @param key - Bucket key of the throttle
+     * @param throttle - The throttle object
+     * @param duration - Time in seconds (counted from {@link Throttle.start Throttle#start}) after which the throttle
+     * expires
+     */
+    public abstract set(key: string, throttle: Throttle, duration: number): Awaitable<void>;
+
+    /**
+     * Adds a usage to a throttle, starting a new one if it doesn't exist or has expired. Concurrent usages of the same
+     * bucket are all counted.
+     * @param key - Bucket key of the throttle
+     * @param duration - Time in seconds (counted from {@link Throttle.start Throttle#start}) after which a new throttle
+     * expires
+     * @returns The throttle, with the usage added
+     */
+    public abstract consume(key: string, duration: number): Awaitable<Throttle>;
+
+    /**
+     * Takes back a usage added by {@link ThrottleStore.consume ThrottleStore#consume}, if the throttle still exists
+     * @param key - Bucket key of the throttle
+     */
+    public abstract refund(key: string): Awaitable<void>;
+
+    /**
+     * Removes a throttle
+     * @param key - Bucket key of the throttle
+     */
+    public abstract delete(key: string): Awaitable<void>;
+}
@@ -0,0 +1,50 @@
+import { Throttle } from '../commands/base';
+import ThrottleStore from './base';
+
+/**
+ * Stores throttles in MongoDB through {@link ClientDatabaseManager.throttles ClientDatabaseManager#throttles}.
+ * Expired throttles are automatically removed by MongoDB.
+ */
+export default class DatabaseThrottleStore extends ThrottleStore {
+    public async get(key: string): Promise<Throttle | null> {
+        const doc = await this.client.database.throttles.fetch(key, { force: true });
+        if (!doc || new Date(doc.expiresAt).getTime() <= Date.now()) return null;
+        return { start: doc.start, usages: doc.usages };
+    }
+
+    public async set(key: string, throttle: Throttle, duration: number): Promise<void> {
+        await this.client.database.throttles.upsert({ _id: key }, {
+            start: throttle.start,
+            usages: throttle.usages,
+            expiresAt: new Date(throttle.start + (duration * 1000)),
+        });
+    }
+
+    public async consume(key: string, duration: number): Promise<Throttle> {
+        const { throttles } = this.client.database;
+        const start = Date.now();
+        const expiresAt = new Date(start + (duration * 1000));
+
+        const doc = await throttles.upsert({ _id: key }, {
+            $inc: { usages: 1 },
+            $setOnInsert: { start, expiresAt },
+        });
+        // MongoDB only removes expired throttles every minute, so one may still be found after it expired
+        if (new Date(doc.expiresAt).getTime() <= start) {
+            await throttles.update(key, { start, usages: 1, expiresAt });
+            return { start, usages: 1 };
+        }
+
+        return { start: doc.start, usages: doc.usages };
+    }
+
+    public async refund(key: string): Promise<void> {
+        await this.client.database.throttles.updateMany({ _id: key, usages: { $gt: 0 } }, { $inc: { usages: -1 } });
+    }
+
+    public async delete(key: string): Promise<void> {
+        const { throttles } = this.client.database;
+        const existing = await throttles.fetch(key, { force: true });
+        if (existing) await throttles.delete(existing);
+    }
+}
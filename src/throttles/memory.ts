@@ -0,0 +1,62 @@
+import { Throttle } from '../commands/base';
+import ThrottleStore from './base';
+
+interface MemoryThrottle {
+    throttle: Throttle;
+    /** Timestamp at which the throttle expires */
+    expiresAt: number;
+    timeout: NodeJS.Timeout;
+}
+
+/** Stores throttles in memory. They are not shared across shards and are lost on restart. */
+export default class MemoryThrottleStore extends ThrottleStore {
+    /** Throttles currently in memory, mapped by their bucket keys */
+    protected throttles: Map<string, MemoryThrottle>;
+
+    public constructor() {
+        super();
+        this.throttles = new Map();
+    }
+
+    public get(key: string): Throttle | null {
+        return this.throttles.get(key)?.throttle ?? null;
+    }
+
+    public set(key: string, throttle: Throttle, duration: number): void {
+        const { throttles } = this;
+        const existing = throttles.get(key);
+        if (existing) clearTimeout(existing.timeout);
+
+        const expiresAt = throttle.start + (duration * 1000);
+        const timeout = setTimeout(() => {
+            throttles.delete(key);
+        }, Math.max(expiresAt - Date.now(), 0));
+        timeout.unref();
+
+        throttles.set(key, { throttle, expiresAt, timeout });
+    }
+
+    public consume(key: string, duration: number): Throttle {
+        const existing = this.throttles.get(key);
+        if (existing && existing.expiresAt > Date.now()) {
+            existing.throttle.usages++;
+            return { ...existing.throttle };
+        }
+
+        const throttle = { start: Date.now(), usages: 1 };
+        this.set(key, throttle, duration);
+        return { ...throttle };
+    }
+
+    public refund(key: string): void {
+        const existing = this.throttles.get(key);
+        if (existing && existing.throttle.usages > 0) existing.throttle.usages--;
+    }
+
+    public delete(key: string): void {
+        const existing = this.throttles.get(key);
+        if (!existing) return;
+        clearTimeout(existing.timeout);
+        this.throttles.delete(key);
+    }
+}
@@ -0,0 +1,97 @@
+import { Throttle } from '../commands/base';
+import SettingProvider from '../providers/base';
+import ThrottleStore from './base';
+
+interface StoredThrottle extends Throttle {
+    /** Timestamp at which the throttle expires */
+    expiresAt: number;
+}
+
+/**
+ * Stores throttles as global settings of the client's {@link SettingProvider}, using `throttle-<key>` as the setting
+ * name. Commands won't be throttled until the provider has been set. Expired throttles are removed whenever a throttle
+ * is set, so they aren't kept in the settings forever.
+ */
+export default class SettingProviderThrottleStore extends ThrottleStore {
+    public async get(key: string): Promise<Throttle | null> {
+        const { provider } = this;
+        if (!provider) return null;
+
+        const stored = provider.get(null, settingName(key)) as StoredThrottle | undefined;
+        if (!stored) return null;
+        if (stored.expiresAt <= Date.now()) {
+            await provider.remove(null, settingName(key));
+            return null;
+        }
+
+        return { start: stored.start, usages: stored.usages };
+    }
+
+    public async set(key: string, throttle: Throttle, duration: number): Promise<void> {
+        const { provider } = this;
+        if (!provider) return;
+
+        await this.removeExpired(provider, settingName(key));
+        const stored: StoredThrottle = {
+            start: throttle.start,
+            usages: throttle.usages,
+            expiresAt: throttle.start + (duration * 1000),
+        };
+        await provider.set(null, settingName(key), stored);
+    }
+
+    public async consume(key: string, duration: number): Promise<Throttle> {
+        const { provider } = this;
+        const start = Date.now();
+        if (!provider) return { start, usages: 0 };
+
+        await this.removeExpired(provider, settingName(key));
+        // The cached setting is read and replaced within the same tick, so concurrent usages are all counted
+        const stored = provider.get(null, settingName(key)) as StoredThrottle | undefined;
+        const throttle = stored && stored.expiresAt > start
+            ? { ...stored, usages: stored.usages + 1 }
+            : { start, usages: 1, expiresAt: start + (duration * 1000) };
+        await provider.set(null, settingName(key), throttle);
+
+        return { start: throttle.start, usages: throttle.usages };
+    }
+
+    public async refund(key: string): Promise<void> {
+        const { provider } = this;
+        const stored = provider?.get(null, settingName(key)) as StoredThrottle | undefined;
+        if (!provider || !stored || stored.usages === 0) return;
+        await provider.set(null, settingName(key), { ...stored, usages: stored.usages - 1 });
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.provider?.remove(null, settingName(key));
+    }
+
+    /**
+     * Removes the expired throttles from the provider's global settings
+     * @param provider - The client's setting provider
+     * @param except - Setting name of a throttle that is about to be overwritten anyway
+     */
+    protected async removeExpired(provider: SettingProvider<Record<string, unknown>>, except: string): Promise<void> {
+        const settings = provider['settings'].get('global') ?? {};
+        const now = Date.now();
+        const expired = Object.entries(settings)
+            .filter(([name, value]) => name.startsWith('throttle-') && name !== except
+                && typeof value === 'object' && value !== null && (value as StoredThrottle).expiresAt <= now)
+            .map(([name]) => name);
+
+        for (const name of expired) {
+            // eslint-disable-next-line no-await-in-loop
+            await provider.remove(null, name);
+        }
+    }
+
+    /** The client's setting provider, if it has been set */
+    protected get provider(): SettingProvider<Record<string, unknown>> | null {
+        return this.client.provider as SettingProvider<Record<string, unknown>> | null;
+    }
+}
+
+function settingName(key: string): string {
+    return `throttle-${key}`;
+}
@@ -1,8 +1,9 @@
-import { Awaitable } from 'discord.js';
+import { ApplicationCommandOptionChoiceData, Awaitable } from 'discord.js';
 import CommandoClient from '../client';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import Argument, { ArgumentTypeString, ArgumentTypeStringMap, ArgumentInfo } from '../commands/argument';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
+import { CommandoAutocompleteInteraction } from '../discord.overrides';
 
 /** A type for command arguments */
 export default abstract class ArgumentType<T extends ArgumentTypeString = ArgumentTypeString> {
@@ -28,42 +29,53 @@ export default abstract class ArgumentType<T extends ArgumentTypeString = Argume
     /**
      * Validates a value string against the type
      * @param value - Value to validate
-     * @param originalMessage - Message that triggered the command
+     * @param originalContext - Message or interaction that triggered the command
      * @param argument - Argument the value was obtained from
-     * @param currentMessage - Current response message
+     * @param currentContext - Current response message or interaction
      * @return Whether the value is valid, or an error message
      */
     public abstract validate(
-        value: string | undefined, originalMessage: CommandoMessage, argument: Argument<T>, currentMessage?: CommandoMessage
+        value: string | undefined, originalContext: CommandContext, argument: Argument<T>, currentContext?: CommandContext
     ): Awaitable<boolean | string>;
 
     /**
      * Parses the raw value string into a usable value
      * @param value - Value to parse
-     * @param originalMessage - Message that triggered the command
+     * @param originalContext - Message or interaction that triggered the command
      * @param argument - Argument the value was obtained from
-     * @param currentMessage - Current response message
+     * @param currentContext - Current response message or interaction
      * @return Usable value
      */
     public abstract parse(
-        value: string, originalMessage: CommandoMessage, argument: Argument<T>, currentMessage?: CommandoMessage
+        value: string, originalContext: CommandContext, argument: Argument<T>, currentContext?: CommandContext
     ): Awaitable<ArgumentTypeStringMap[T] | null>;
 
+    /**
+     * Obtains the autocomplete choices that match a partial value
+     * @param query - Partial value the user has typed so far
+     * @param interaction - Autocomplete interaction that requested the choices
+     * @param argument - Argument the choices are for
+     * @return Up to 25 choices
+     */
+    public autocomplete?(
+        query: string, interaction: CommandoAutocompleteInteraction, argument: Argument<T>
+    ): Awaitable<ApplicationCommandOptionChoiceData[]>;
+
     /**
      * Checks whether a value is considered to be empty. This determines whether the default value for an argument
      * should be used and changes the response to the user under certain circumstances.
      * @param value - Value to check for emptiness
-     * @param originalMessage - Message that triggered the command
+     * @param originalContext - Message or interaction that triggered the command
      * @param argument - Argument the value was obtained from
-     * @param currentMessage - Current response message
+     * @param currentContext - Current response message or interaction
      * @return Whether the value is empty
      */
     public isEmpty(
         value: string[] | string | undefined,
-        originalMessage: CommandoMessage,
+        originalContext: CommandContext,
         argument: Argument<T>,
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        currentMessage: CommandoMessage = originalMessage
+        currentContext: CommandContext = originalContext
     ): boolean {
         if (Array.isArray(value)) return value.length === 0;
         return !value;
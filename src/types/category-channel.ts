@@ -2,7 +2,7 @@ import ArgumentType from './base';
 import Util from '../util';
 import { ChannelType, CategoryChannel, escapeMarkdown, GuildBasedChannel } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
 
 export default class CategoryChannelArgumentType extends ArgumentType<'category-channel'> {
@@ -11,10 +11,10 @@ export default class CategoryChannelArgumentType extends ArgumentType<'category-
     }
 
     public validate(
-        value: string | undefined, message: CommandoMessage, argument: Argument<'category-channel'>
+        value: string | undefined, context: CommandContext, argument: Argument<'category-channel'>
     ): boolean | string {
         if (typeof value === 'undefined') return false;
-        const { client, guild } = message;
+        const { client, guild } = context;
         const { oneOf } = argument;
 
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
@@ -53,14 +53,14 @@ export default class CategoryChannelArgumentType extends ArgumentType<'category-
             : 'Multiple categories found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): CategoryChannel | null {
+    public parse(value: string, context: CommandContext): CategoryChannel | null {
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
-        if (matches) return message.client.channels.resolve(matches[1]) as CategoryChannel | null;
+        if (matches) return context.client.channels.resolve(matches[1]) as CategoryChannel | null;
 
-        if (!message.guild) return null;
+        if (!context.guild) return null;
 
         const search = value.toLowerCase();
-        const channels = message.guild.channels.cache.filter(channelFilterInexact(search));
+        const channels = context.guild.channels.cache.filter(channelFilterInexact(search));
         if (channels.size === 0) return null;
         if (channels.size === 1) return channels.first() ?? null;
 
@@ -2,7 +2,7 @@ import ArgumentType from './base';
 import Util from '../util';
 import { escapeMarkdown, GuildBasedChannel } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
 
 export default class ChannelArgumentType extends ArgumentType<'channel'> {
@@ -10,14 +10,14 @@ export default class ChannelArgumentType extends ArgumentType<'channel'> {
         super(client, 'channel');
     }
 
-    public validate(value: string | undefined, message: CommandoMessage, argument: Argument<'channel'>): boolean | string {
-        if (typeof value === 'undefined' || !message.inGuild()) return false;
+    public validate(value: string | undefined, context: CommandContext, argument: Argument<'channel'>): boolean | string {
+        if (typeof value === 'undefined' || !context.inGuild()) return false;
 
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
-        if (matches) return message.guild.channels.cache.has(matches[1]);
+        if (matches) return context.guild.channels.cache.has(matches[1]);
 
         const search = value.toLowerCase();
-        let channels = message.guild.channels.cache.filter(nameFilterInexact(search));
+        let channels = context.guild.channels.cache.filter(nameFilterInexact(search));
         const first = channels.first();
         if (!first) return false;
         if (channels.size === 1) {
@@ -38,14 +38,14 @@ export default class ChannelArgumentType extends ArgumentType<'channel'> {
             : 'Multiple channels found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): GuildBasedChannel | null {
-        if (!message.inGuild()) return null;
+    public parse(value: string, context: CommandContext): GuildBasedChannel | null {
+        if (!context.inGuild()) return null;
 
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
-        if (matches) return message.guild.channels.resolve(matches[1]);
+        if (matches) return context.guild.channels.resolve(matches[1]);
 
         const search = value.toLowerCase();
-        const channels = message.guild.channels.cache.filter(nameFilterInexact(search));
+        const channels = context.guild.channels.cache.filter(nameFilterInexact(search));
         if (channels.size === 0) return null;
         if (channels.size === 1) return channels.first() ?? null;
 
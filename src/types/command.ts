@@ -1,6 +1,6 @@
 import ArgumentType from './base';
 import Util from '../util';
-import { escapeMarkdown } from 'discord.js';
+import { ApplicationCommandOptionChoiceData, escapeMarkdown } from 'discord.js';
 import CommandoClient from '../client';
 import Command from '../commands/base';
 
@@ -22,4 +22,11 @@ export default class CommandArgumentType extends ArgumentType<'command'> {
     public parse(value: string): Command {
         return this.client.registry.findCommands(value)[0];
     }
+
+    public override autocomplete(query: string): ApplicationCommandOptionChoiceData[] {
+        return this.client.registry.findCommands(query)
+            .filter(command => !command.hidden)
+            .slice(0, 25)
+            .map(command => ({ name: command.name, value: command.name }));
+    }
 }
@@ -1,3 +1,4 @@
+import { ApplicationCommandOptionChoiceData } from 'discord.js';
 import emojiRegex from 'emoji-regex';
 import CommandoClient from '../client';
 import Argument from '../commands/argument';
@@ -23,4 +24,10 @@ export default class DefaultEmojiArgumentType extends ArgumentType<'default-emoj
     public parse(value: string): string {
         return value;
     }
+
+    public override autocomplete(query: string): ApplicationCommandOptionChoiceData[] {
+        // There's no list of names to search through, so only a complete emoji can be suggested
+        const emoji = query.trim();
+        return this.emojiRegex.test(emoji) ? [{ name: emoji, value: emoji }] : [];
+    }
 }
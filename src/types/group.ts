@@ -1,6 +1,6 @@
 import ArgumentType from './base';
 import Util from '../util';
-import { escapeMarkdown } from 'discord.js';
+import { ApplicationCommandOptionChoiceData, escapeMarkdown } from 'discord.js';
 import CommandoClient from '../client';
 import CommandGroup from '../commands/group';
 
@@ -22,4 +22,10 @@ export default class GroupArgumentType extends ArgumentType<'group'> {
     public parse(value: string): CommandGroup {
         return this.client.registry.findGroups(value)[0];
     }
+
+    public override autocomplete(query: string): ApplicationCommandOptionChoiceData[] {
+        return this.client.registry.findGroups(query)
+            .slice(0, 25)
+            .map(group => ({ name: group.name, value: group.id }));
+    }
 }
@@ -1,23 +1,24 @@
 import ArgumentType from './base';
 import Util from '../util';
-import { escapeMarkdown, GuildEmoji } from 'discord.js';
+import { ApplicationCommandOptionChoiceData, escapeMarkdown, GuildEmoji } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
+import { CommandoAutocompleteInteraction } from '../discord.overrides';
 
 export default class CustomEmojiArgumentType extends ArgumentType<'guild-emoji'> {
     public constructor(client: CommandoClient) {
         super(client, 'guild-emoji');
     }
 
-    public validate(value: string | undefined, message: CommandoMessage): boolean | string {
+    public validate(value: string | undefined, context: CommandContext): boolean | string {
         if (typeof value === 'undefined') return false;
         const matches = value.match(/^(?:<a?:(\w+):)?(\d+)>?$/);
-        if (matches && message.client.emojis.cache.has(matches[2])) return true;
+        if (matches && context.client.emojis.cache.has(matches[2])) return true;
 
-        if (!message.guild) return false;
+        if (!context.guild) return false;
 
         const search = value.toLowerCase();
-        let emojis = message.guild.emojis.cache.filter(nameFilterInexact(search));
+        let emojis = context.guild.emojis.cache.filter(nameFilterInexact(search));
         if (!emojis.size) return false;
         if (emojis.size === 1) return true;
 
@@ -30,14 +31,14 @@ export default class CustomEmojiArgumentType extends ArgumentType<'guild-emoji'>
             : 'Multiple emojis found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): GuildEmoji | null {
-        if (!message.inGuild()) return null;
+    public parse(value: string, context: CommandContext): GuildEmoji | null {
+        if (!context.inGuild()) return null;
 
         const matches = value.match(/^(?:<a?:(\w+):)?(\d+)>?$/);
-        if (matches) return message.client.emojis.resolve(matches[2]) as GuildEmoji | null;
+        if (matches) return context.client.emojis.resolve(matches[2]) as GuildEmoji | null;
 
         const search = value.toLowerCase();
-        const emojis = message.guild.emojis.cache.filter(nameFilterInexact(search));
+        const emojis = context.guild.emojis.cache.filter(nameFilterInexact(search));
         if (!emojis.size) return null;
         if (emojis.size === 1) return emojis.first() ?? null;
 
@@ -46,6 +47,17 @@ export default class CustomEmojiArgumentType extends ArgumentType<'guild-emoji'>
 
         return null;
     }
+
+    public override autocomplete(
+        query: string, interaction: CommandoAutocompleteInteraction
+    ): ApplicationCommandOptionChoiceData[] {
+        const { guild } = interaction;
+        if (!guild) return [];
+        return guild.emojis.cache
+            .filter(nameFilterInexact(query.toLowerCase()))
+            .first(25)
+            .map(emoji => ({ name: emoji.name ?? emoji.id, value: emoji.id }));
+    }
 }
 
 function nameFilterExact(search: string) {
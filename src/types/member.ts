@@ -1,9 +1,10 @@
 import ArgumentType from './base';
 import Util from '../util';
-import { escapeMarkdown, GuildMember } from 'discord.js';
+import { ApplicationCommandOptionChoiceData, escapeMarkdown, GuildMember } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
+import { CommandoAutocompleteInteraction } from '../discord.overrides';
 
 export default class MemberArgumentType extends ArgumentType<'member'> {
     public constructor(client: CommandoClient) {
@@ -11,14 +12,14 @@ export default class MemberArgumentType extends ArgumentType<'member'> {
     }
 
     public async validate(
-        value: string | undefined, message: CommandoMessage, argument: Argument<'member'>
+        value: string | undefined, context: CommandContext, argument: Argument<'member'>
     ): Promise<boolean | string> {
-        if (typeof value === 'undefined' || !message.inGuild()) return false;
+        if (typeof value === 'undefined' || !context.inGuild()) return false;
 
         const matches = value.match(/^(?:<@!?)?(\d+)>?$/);
         if (matches) {
             try {
-                const member = await message.guild.members.fetch(matches[1]);
+                const member = await context.guild.members.fetch(matches[1]);
                 if (!member) return false;
                 if (argument.oneOf && !argument.oneOf.includes(member.id)) return false;
                 return true;
@@ -28,7 +29,7 @@ export default class MemberArgumentType extends ArgumentType<'member'> {
         }
 
         const search = value.toLowerCase();
-        let members = message.guild.members.cache.filter(memberFilterInexact(search));
+        let members = context.guild.members.cache.filter(memberFilterInexact(search));
         const first = members.first();
         if (!first) return false;
         if (members.size === 1) {
@@ -49,14 +50,14 @@ export default class MemberArgumentType extends ArgumentType<'member'> {
             : 'Multiple members found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): GuildMember | null {
-        if (!message.inGuild()) return null;
+    public parse(value: string, context: CommandContext): GuildMember | null {
+        if (!context.inGuild()) return null;
 
         const matches = value.match(/^(?:<@!?)?(\d+)>?$/);
-        if (matches) return message.guild.members.resolve(matches[1]);
+        if (matches) return context.guild.members.resolve(matches[1]);
 
         const search = value.toLowerCase();
-        const members = message.guild.members.cache.filter(memberFilterInexact(search));
+        const members = context.guild.members.cache.filter(memberFilterInexact(search));
         if (members.size === 0) return null;
         if (members.size === 1) return members.first() ?? null;
 
@@ -65,6 +66,17 @@ export default class MemberArgumentType extends ArgumentType<'member'> {
 
         return null;
     }
+
+    public override autocomplete(
+        query: string, interaction: CommandoAutocompleteInteraction
+    ): ApplicationCommandOptionChoiceData[] {
+        const { guild } = interaction;
+        if (!guild) return [];
+        return guild.members.cache
+            .filter(memberFilterInexact(query.toLowerCase()))
+            .first(25)
+            .map(member => ({ name: member.user.tag, value: member.id }));
+    }
 }
 
 function memberFilterExact(search: string) {
@@ -1,6 +1,6 @@
 import CommandoClient from '../client';
 import { CommandoifiedMessage } from '../discord.overrides';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import ArgumentType from './base';
 
 // Match id or message URL
@@ -15,15 +15,17 @@ export default class MessageArgumentType extends ArgumentType<'message'> {
         return messageRegex;
     }
 
-    public async validate(value: string | undefined, message: CommandoMessage): Promise<boolean | string> {
+    public async validate(value: string | undefined, context: CommandContext): Promise<boolean | string> {
         if (typeof value === 'undefined') return false;
         const matches = value.match(this.messageRegex);
         if (!matches) return 'Please enter a valid message id or URL.';
-        const msg = await message.channel.messages.fetch(matches[1] ?? matches[2]).catch(() => null);
+        const msg = await context.channel?.messages.fetch(matches[1] ?? matches[2]).catch(() => null);
         return !!msg;
     }
 
-    public parse(value: string, message: CommandoMessage): CommandoifiedMessage | null {
-        return message.channel.messages.resolve(value) as CommandoifiedMessage | null;
+    public parse(value: string, context: CommandContext): CommandoifiedMessage | null {
+        const matches = value.match(this.messageRegex);
+        if (!matches) return null;
+        return (context.channel?.messages.resolve(matches[1] ?? matches[2]) ?? null) as CommandoifiedMessage | null;
     }
 }
@@ -2,7 +2,7 @@ import ArgumentType from './base';
 import Util from '../util';
 import { escapeMarkdown, Role } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
 
 export default class RoleArgumentType extends ArgumentType<'role'> {
@@ -10,14 +10,14 @@ export default class RoleArgumentType extends ArgumentType<'role'> {
         super(client, 'role');
     }
 
-    public validate(value: string | undefined, message: CommandoMessage, argument: Argument<'role'>): boolean | string {
-        if (typeof value === 'undefined' || !message.inGuild()) return false;
+    public validate(value: string | undefined, context: CommandContext, argument: Argument<'role'>): boolean | string {
+        if (typeof value === 'undefined' || !context.inGuild()) return false;
 
         const matches = value.match(/^(?:<@&)?(\d+)>?$/);
-        if (matches) return message.guild.roles.cache.has(matches[1]);
+        if (matches) return context.guild.roles.cache.has(matches[1]);
 
         const search = value.toLowerCase();
-        let roles = message.guild.roles.cache.filter(nameFilterInexact(search));
+        let roles = context.guild.roles.cache.filter(nameFilterInexact(search));
         const first = roles.first();
         if (!first) return false;
         if (roles.size === 1) {
@@ -38,14 +38,14 @@ export default class RoleArgumentType extends ArgumentType<'role'> {
             : 'Multiple roles found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): Role | null {
-        if (!message.guild) return null;
+    public parse(value: string, context: CommandContext): Role | null {
+        if (!context.guild) return null;
 
         const matches = value.match(/^(?:<@&)?(\d+)>?$/);
-        if (matches) return message.guild.roles.resolve(matches[1]);
+        if (matches) return context.guild.roles.resolve(matches[1]);
 
         const search = value.toLowerCase();
-        const roles = message.guild.roles.cache.filter(nameFilterInexact(search));
+        const roles = context.guild.roles.cache.filter(nameFilterInexact(search));
         if (roles.size === 0) return null;
         if (roles.size === 1) return roles.first() ?? null;
 
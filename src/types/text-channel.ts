@@ -2,7 +2,7 @@ import ArgumentType from './base';
 import Util from '../util';
 import { ChannelType, escapeMarkdown, GuildBasedChannel, TextChannel } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
 
 export default class TextChannelArgumentType extends ArgumentType<'text-channel'> {
@@ -11,13 +11,13 @@ export default class TextChannelArgumentType extends ArgumentType<'text-channel'
     }
 
     public validate(
-        value: string | undefined, message: CommandoMessage, argument: Argument<'text-channel'>
+        value: string | undefined, context: CommandContext, argument: Argument<'text-channel'>
     ): boolean | string {
         if (typeof value === 'undefined') return false;
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
         if (matches) {
             try {
-                const channel = message.client.channels.resolve(matches[1]);
+                const channel = context.client.channels.resolve(matches[1]);
                 if (!channel || channel.type !== ChannelType.GuildText) return false;
                 if (argument.oneOf && !argument.oneOf.includes(channel.id)) return false;
                 return true;
@@ -26,10 +26,10 @@ export default class TextChannelArgumentType extends ArgumentType<'text-channel'
             }
         }
 
-        if (!message.guild) return false;
+        if (!context.guild) return false;
 
         const search = value.toLowerCase();
-        let channels = message.guild.channels.cache.filter(channelFilterInexact(search));
+        let channels = context.guild.channels.cache.filter(channelFilterInexact(search));
         const first = channels.first();
         if (!first) return false;
         if (channels.size === 1) {
@@ -50,14 +50,14 @@ export default class TextChannelArgumentType extends ArgumentType<'text-channel'
             : 'Multiple text channels found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): TextChannel | null {
+    public parse(value: string, context: CommandContext): TextChannel | null {
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
-        if (matches) return message.client.channels.resolve(matches[1]) as TextChannel | null;
+        if (matches) return context.client.channels.resolve(matches[1]) as TextChannel | null;
 
-        if (!message.guild) return null;
+        if (!context.guild) return null;
 
         const search = value.toLowerCase();
-        const channels = message.guild.channels.cache.filter(channelFilterInexact(search));
+        const channels = context.guild.channels.cache.filter(channelFilterInexact(search));
         if (channels.size === 0) return null;
         if (channels.size === 1) return channels.first() ?? null;
 
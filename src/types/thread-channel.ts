@@ -2,7 +2,7 @@ import ArgumentType from './base';
 import Util from '../util';
 import { AnyThreadChannel, escapeMarkdown, GuildBasedChannel } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
 
 export default class ThreadChannelArgumentType extends ArgumentType<'thread-channel'> {
@@ -11,13 +11,13 @@ export default class ThreadChannelArgumentType extends ArgumentType<'thread-chan
     }
 
     public validate(
-        value: string | undefined, message: CommandoMessage, argument: Argument<'thread-channel'>
+        value: string | undefined, context: CommandContext, argument: Argument<'thread-channel'>
     ): boolean | string {
         if (typeof value === 'undefined') return false;
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
         if (matches) {
             try {
-                const channel = message.client.channels.resolve(matches[1]);
+                const channel = context.client.channels.resolve(matches[1]);
                 if (!channel || channel.isThread()) return false;
                 if (argument.oneOf && !argument.oneOf.includes(channel.id)) return false;
                 return true;
@@ -26,10 +26,10 @@ export default class ThreadChannelArgumentType extends ArgumentType<'thread-chan
             }
         }
 
-        if (!message.inGuild()) return false;
+        if (!context.inGuild()) return false;
 
         const search = value.toLowerCase();
-        let channels = message.guild.channels.cache.filter(channelFilterInexact(search));
+        let channels = context.guild.channels.cache.filter(channelFilterInexact(search));
         const first = channels.first();
         if (!first) return false;
         if (channels.size === 1) {
@@ -50,14 +50,14 @@ export default class ThreadChannelArgumentType extends ArgumentType<'thread-chan
             : 'Multiple thread channels found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): AnyThreadChannel | null {
+    public parse(value: string, context: CommandContext): AnyThreadChannel | null {
         const matches = value.match(/^(?:<#)?(\d+)>?$/);
-        if (matches) return message.client.channels.resolve(matches[1]) as AnyThreadChannel | null;
+        if (matches) return context.client.channels.resolve(matches[1]) as AnyThreadChannel | null;
 
-        if (!message.inGuild()) return null;
+        if (!context.inGuild()) return null;
 
         const search = value.toLowerCase();
-        const channels = message.guild.channels.cache.filter(channelFilterInexact(search));
+        const channels = context.guild.channels.cache.filter(channelFilterInexact(search));
         if (channels.size === 0) return null;
         if (channels.size === 1) return channels.first() ?? null;
 
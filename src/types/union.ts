@@ -1,6 +1,8 @@
+import { ApplicationCommandOptionChoiceData } from 'discord.js';
 import CommandoClient from '../client';
 import Argument, { ArgumentTypeString, ArgumentTypeStringMap } from '../commands/argument';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
+import { CommandoAutocompleteInteraction } from '../discord.overrides';
 import ArgumentType from './base';
 
 /** A type for command arguments that handles multiple other types */
@@ -21,10 +23,10 @@ export default class ArgumentUnionType<T extends ArgumentTypeString = ArgumentTy
     }
 
     public async validate(
-        value: string | undefined, message: CommandoMessage, argument: Argument
+        value: string | undefined, context: CommandContext, argument: Argument
     ): Promise<boolean | string> {
         const results = await Promise.all(this.types.map(type =>
-            !type.isEmpty(value, message, argument) && type.validate(value, message, argument)
+            !type.isEmpty(value, context, argument) && type.validate(value, context, argument)
         ));
         if (results.some(valid => valid === true)) return true;
 
@@ -35,22 +37,31 @@ export default class ArgumentUnionType<T extends ArgumentTypeString = ArgumentTy
     }
 
     public async parse(
-        value: string, message: CommandoMessage, argument: Argument
+        value: string, context: CommandContext, argument: Argument
     ): Promise<ArgumentTypeStringMap[T] | null> {
         const results = await Promise.all(this.types.map(type =>
-            !type.isEmpty(value, message, argument) && type.validate(value, message, argument)
+            !type.isEmpty(value, context, argument) && type.validate(value, context, argument)
         ));
 
         for (let i = 0; i < results.length; i++) {
             if (results[i] && typeof results[i] !== 'string') {
-                return this.types[i].parse(value, message, argument) as Promise<ArgumentTypeStringMap[T] | null>;
+                return this.types[i].parse(value, context, argument) as Promise<ArgumentTypeStringMap[T] | null>;
             }
         }
 
         throw new Error(`Couldn't parse value "${value}" with union type ${this.id}.`);
     }
 
-    public override isEmpty(value: string, message: CommandoMessage, argument: Argument): boolean {
-        return !this.types.some(type => !type.isEmpty(value, message, argument));
+    public override async autocomplete(
+        query: string, interaction: CommandoAutocompleteInteraction, argument: Argument
+    ): Promise<ApplicationCommandOptionChoiceData[]> {
+        const results = await Promise.all(this.types.map(type =>
+            type.autocomplete?.(query, interaction, argument) ?? []
+        ));
+        return results.flat().slice(0, 25);
+    }
+
+    public override isEmpty(value: string, context: CommandContext, argument: Argument): boolean {
+        return !this.types.some(type => !type.isEmpty(value, context, argument));
     }
 }
@@ -2,7 +2,7 @@ import ArgumentType from './base';
 import Util from '../util';
 import { escapeMarkdown, GuildMember, User } from 'discord.js';
 import CommandoClient from '../client';
-import CommandoMessage from '../extensions/message';
+import { CommandContext } from '../commands/base';
 import Argument from '../commands/argument';
 
 export default class UserArgumentType extends ArgumentType<'user'> {
@@ -11,13 +11,13 @@ export default class UserArgumentType extends ArgumentType<'user'> {
     }
 
     public async validate(
-        value: string | undefined, message: CommandoMessage, argument: Argument<'user'>
+        value: string | undefined, context: CommandContext, argument: Argument<'user'>
     ): Promise<boolean | string> {
         if (typeof value === 'undefined') return false;
         const matches = value.match(/^(?:<@!?)?(\d+)>?$/);
         if (matches) {
             try {
-                const user = await message.client.users.fetch(matches[1]);
+                const user = await context.client.users.fetch(matches[1]);
                 if (!user) return false;
                 if (argument.oneOf && !argument.oneOf.includes(user.id)) return false;
                 return true;
@@ -26,10 +26,10 @@ export default class UserArgumentType extends ArgumentType<'user'> {
             }
         }
 
-        if (!message.inGuild()) return false;
+        if (!context.inGuild()) return false;
 
         const search = value.toLowerCase();
-        let members = message.guild.members.cache.filter(memberFilterInexact(search));
+        let members = context.guild.members.cache.filter(memberFilterInexact(search));
         const first = members.first();
         if (!first) return false;
         if (members.size === 1) {
@@ -50,14 +50,14 @@ export default class UserArgumentType extends ArgumentType<'user'> {
             : 'Multiple users found. Please be more specific.';
     }
 
-    public parse(value: string, message: CommandoMessage): User | null {
+    public parse(value: string, context: CommandContext): User | null {
         const matches = value.match(/^(?:<@!?)?(\d+)>?$/);
-        if (matches) return message.client.users.resolve(matches[1]) as User | null;
+        if (matches) return context.client.users.resolve(matches[1]) as User | null;
 
-        if (!message.inGuild()) return null;
+        if (!context.inGuild()) return null;
 
         const search = value.toLowerCase();
-        const members = message.guild.members.cache.filter(memberFilterInexact(search));
+        const members = context.guild.members.cache.filter(memberFilterInexact(search));
         const first = members.first();
         if (!first) return null;
         if (members.size === 1) return first.user;
@@ -130,6 +130,20 @@ export default class Util extends null {
         return string.replace(/[|\\{}()[\]^$+*?.]/g, '\\$&');
     }
 
+    /**
+     * Removes the empty and duplicated command prefixes from a list. Prefixes are matched case-insensitively, so
+     * the duplicates are compared that way too.
+     * @param prefixes - The prefixes to filter.
+     */
+    public static uniquePrefixes(prefixes: Array<Nullable<string>>): string[] {
+        const seen = new Set<string>();
+        return prefixes.filter((prefix): prefix is string => {
+            if (!prefix || seen.has(prefix.toLowerCase())) return false;
+            seen.add(prefix.toLowerCase());
+            return true;
+        });
+    }
+
     /**
      * Checks if the argument is a promise.
      * @param obj - The object of function to check.
@@ -187,6 +201,14 @@ export default class Util extends null {
         return (first + rest) as KebabToCamelCase<S>;
     }
 
+    /**
+     * Turns camelCase to kebab-case
+     * @param string - The string to parse.
+     */
+    public static camelToKebabCase(string: string): string {
+        return string.replace(/([A-Z]+)/g, '-$1').toLowerCase();
+    }
+
     /**
      * Converts the first character of string to upper case and the remaining to lower case.
      * @param string — The string to capitalize.
@@ -0,0 +1,85 @@
+import { ShardClientUtil } from 'discord.js';
+import { InMemorySettingProvider, MemoryDatabaseStorage, SettingProvider } from '../../src';
+import Schemas from '../../src/database/Schemas';
+import { createClient, guildOfShard } from '../helpers';
+
+/** Waits for the purges to be scheduled and stored */
+function settled(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('GuildDataLifecycle', () => {
+    const hour = 60 * 60 * 1000;
+
+    /**
+     * Creates a client that keeps the data of the guilds for an hour, and whose database already stores data
+     * of a guild of each of two shards
+     * @param storage - Storage of the database
+     */
+    async function createShardClient(storage = new MemoryDatabaseStorage()): Promise<{
+        client: ReturnType<typeof createClient>;
+        ownGuild: string;
+        otherGuild: string;
+    }> {
+        const client = createClient({ databaseStorage: storage, guildDataRetention: hour });
+        // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+        client.shard = { ids: [0], count: 2 } as ShardClientUtil;
+
+        const ownGuild = guildOfShard(0, 2);
+        const otherGuild = guildOfShard(1, 2);
+        const { Schema } = client.database.disabled;
+        for (const guild of [ownGuild, otherGuild]) {
+            await storage.insert(Schema, { guild, global: false, commands: ['ping'], groups: [] });
+        }
+        return { client, ownGuild, otherGuild };
+    }
+
+    it('only schedules and stores the deletion of the data of the guilds of its shard', async () => {
+        const { client, ownGuild, otherGuild } = await createShardClient();
+
+        client.emit('databaseReady', client);
+        await settled();
+        const purgeAt = client.guildDataLifecycle.getPurgeDate(ownGuild);
+        expect(purgeAt).toBeInstanceOf(Date);
+        expect(client.guildDataLifecycle.getPurgeDate(otherGuild)).toBeNull();
+
+        const stored = await client.databaseStorage.find(Schemas.GuildPurgesModel, {});
+        expect(stored).toEqual([{ _id: ownGuild, purgeAt }]);
+        client.guildDataLifecycle.cancelPurge(ownGuild);
+    });
+
+    it('reuses the stored deletion dates after a restart, and removes them once cancelled', async () => {
+        const storage = new MemoryDatabaseStorage();
+        const purgeAt = new Date(Date.now() + hour / 2);
+        const { client, ownGuild } = await createShardClient(storage);
+        await storage.insert(Schemas.GuildPurgesModel, { _id: ownGuild, purgeAt });
+
+        client.emit('databaseReady', client);
+        await settled();
+        expect(client.guildDataLifecycle.getPurgeDate(ownGuild)).toEqual(purgeAt);
+
+        client.guildDataLifecycle.cancelPurge(ownGuild);
+        await settled();
+        expect(await storage.findOne(Schemas.GuildPurgesModel, ownGuild)).toBeNull();
+    });
+
+    it('deletes the settings of the guild and of the channels recorded to be in it', async () => {
+        const { client, ownGuild, otherGuild } = await createShardClient();
+        const provider = new InMemorySettingProvider<true>();
+        client.provider = provider;
+        provider.init(client);
+
+        const ownChannel = SettingProvider.getChannelScopeID('1');
+        const otherChannel = SettingProvider.getChannelScopeID('2');
+        provider.set(ownGuild, 'prefix', '$');
+        provider.set(ownChannel, 'prefix', '%');
+        provider.set(otherChannel, 'prefix', '&');
+        await provider.setChannelGuild('1', ownGuild);
+        await provider.setChannelGuild('2', otherGuild);
+
+        await client.guildDataLifecycle.purge(ownGuild);
+        expect(provider.get(ownGuild, 'prefix')).toBeUndefined();
+        expect(provider.get(ownChannel, 'prefix')).toBeUndefined();
+        expect(provider.get(otherChannel, 'prefix')).toBe('&');
+    });
+});
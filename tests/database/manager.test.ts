@@ -0,0 +1,77 @@
+import { CommandoGuild, DatabaseManager } from '../../src';
+import initializeDB from '../../src/database/initializeDB';
+import { createClient } from '../helpers';
+
+describe('DatabaseManager', () => {
+    /** Creates a client whose `disabled` collection holds two guild documents and two of the client */
+    async function createDisabledDocs(): Promise<[client: ReturnType<typeof createClient>, ids: string[]]> {
+        const client = createClient();
+        const { databaseStorage: storage, database } = client;
+        const { Schema } = database.disabled;
+
+        await storage.insert(Schema, { guild: '100', global: false, commands: ['ping'], groups: [] });
+        const first = await storage.insert(Schema, { global: true, commands: ['ping'], groups: [] });
+        await storage.insert(Schema, { guild: '100', global: false, commands: [], groups: ['util'] });
+        const second = await storage.insert(Schema, { global: true, commands: [], groups: ['util'] });
+        return [client, [first._id.toString(), second._id.toString()]];
+    }
+
+    it("limits the client's fetches to its own documents before paginating", async () => {
+        const [client, [first, second]] = await createDisabledDocs();
+
+        const firstPage = await client.database.disabled.fetchMany({}, { limit: 1 });
+        expect([...firstPage.keys()]).toEqual([first]);
+
+        const secondPage = await client.database.disabled.fetchMany({}, { limit: 1, after: first });
+        expect([...secondPage.keys()]).toEqual([second]);
+
+        const doc = await client.database.disabled.fetch({ commands: 'ping' }, { force: true });
+        expect(doc?._id.toString()).toBe(first);
+    });
+
+    it("iterates over the client's own documents only", async () => {
+        const [client, ids] = await createDisabledDocs();
+
+        const iterated: string[] = [];
+        for await (const doc of client.database.disabled.iterate()) iterated.push(doc._id.toString());
+        expect(iterated).toEqual(ids);
+    });
+
+    it('rejects cursor pagination along with a custom sort', async () => {
+        const client = createClient();
+        await expect(client.database.disabled.fetchMany({}, { after: '1', sort: { global: -1 } })).rejects.toThrow(TypeError);
+    });
+
+    it("doesn't change the filters it's given", async () => {
+        const [client] = await createDisabledDocs();
+        const { Schema } = client.database.disabled;
+        const managers = ['100', '200'].map(id => new DatabaseManager(
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            Schema, { id } as CommandoGuild, undefined, client.databaseStorage
+        ));
+        await client.databaseStorage.insert(Schema, { guild: '200', global: false, commands: ['ping'], groups: [] });
+
+        const filter = { commands: 'ping' };
+        const fetched = await Promise.all(managers.map(manager => manager.fetchMany(filter, { force: true })));
+        expect(fetched.map(docs => docs.map(doc => doc.guild))).toEqual([['100'], ['200']]);
+        expect(filter).toEqual({ commands: 'ping' });
+    });
+
+    it('caches up to the maximum size of each manager on startup', async () => {
+        const client = createClient({ databaseCache: { disabled: { maxSize: 1 }, prefixes: { maxSize: 0 } } });
+        const { databaseStorage: storage, database } = client;
+        await storage.insert(database.disabled.Schema, { global: true, commands: ['ping'], groups: [] });
+        await storage.insert(database.disabled.Schema, { global: true, commands: ['eval'], groups: [] });
+        await storage.insert(database.prefixes.Schema, { global: true, prefix: '?' });
+        await storage.insert(database.todo.Schema, { user: '1', list: [] });
+
+        await initializeDB(client);
+        expect(database.disabled.cache.size).toBe(1);
+        expect(database.disabled.cache.partial).toBe(true);
+        expect(database.prefixes.cache.size).toBe(0);
+        expect(database.prefixes.cache.partial).toBe(true);
+        expect(database.todo.cache.size).toBe(1);
+        expect(database.todo.cache.partial).toBe(false);
+        expect((await database.disabled.fetchMany()).size).toBe(2);
+    });
+});
@@ -0,0 +1,94 @@
+import { Database } from 'better-sqlite3';
+import { MemoryDatabaseStorage, SQLiteDatabaseStorage } from '../../src';
+import { createClient } from '../helpers';
+
+/** Waits for the pending transactions to go on */
+function tick(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('MemoryDatabaseStorage', () => {
+    it("runs transactions one at a time, so a rollback doesn't undo another transaction", async () => {
+        const storage = new MemoryDatabaseStorage();
+        const { Schema } = createClient({ databaseStorage: storage }).database.todo;
+
+        const failing = storage.transaction(async () => {
+            await storage.insert(Schema, { user: '1', list: [] });
+            await tick();
+            throw new Error('Failed');
+        });
+        const succeeding = storage.transaction(async () => {
+            await storage.insert(Schema, { user: '2', list: [] });
+        });
+
+        await expect(failing).rejects.toThrow('Failed');
+        await succeeding;
+        expect((await storage.find(Schema, {})).map(doc => doc.user)).toEqual(['2']);
+    });
+
+    it('keeps the changes made outside of a transaction when rolling it back', async () => {
+        const storage = new MemoryDatabaseStorage();
+        const { Schema } = createClient({ databaseStorage: storage }).database.todo;
+        const existing = await storage.insert(Schema, { user: '1', list: [] });
+
+        const failing = storage.transaction(async () => {
+            await storage.update(Schema, existing._id, { list: ['a'] });
+            await storage.insert(Schema, { user: '2', list: [] });
+            await tick();
+            throw new Error('Failed');
+        });
+        await storage.insert(Schema, { user: '3', list: [] });
+
+        await expect(failing).rejects.toThrow('Failed');
+        const docs = await storage.find(Schema, {});
+        expect(docs.map(doc => [doc.user, doc.list])).toEqual([['1', []], ['3', []]]);
+    });
+});
+
+describe('SQLiteDatabaseStorage', () => {
+    /** Creates a storage with a fake connection, which records the statements it runs besides creating tables */
+    function createStorage(): { storage: SQLiteDatabaseStorage; statements: string[] } {
+        const statements: string[] = [];
+        const connection = {
+            open: true,
+            prepare: (sql: string) => ({
+                run: (): void => {
+                    if (!sql.startsWith('CREATE')) statements.push(sql.split(' ')[0]);
+                },
+                all: (): unknown[] => [],
+            }),
+        } as unknown as Database;
+        return { storage: new SQLiteDatabaseStorage(connection), statements };
+    }
+
+    it("doesn't begin a transaction until the previous one is committed", async () => {
+        const { storage, statements } = createStorage();
+        const { Schema } = createClient({ databaseStorage: storage }).database.todo;
+
+        await Promise.all(['1', '2'].map(user => storage.transaction(async () => {
+            await tick();
+            await storage.insert(Schema, { user, list: [] });
+        })));
+        expect(statements).toEqual(['BEGIN', 'INSERT', 'COMMIT', 'BEGIN', 'INSERT', 'COMMIT']);
+    });
+
+    it('writes the changes made outside of a transaction right away, and the ones in it once committed', async () => {
+        const { storage, statements } = createStorage();
+        const { Schema } = createClient({ databaseStorage: storage }).database.todo;
+
+        const failing = storage.transaction(async () => {
+            await storage.insert(Schema, { user: '1', list: [] });
+            await tick();
+            throw new Error('Failed');
+        });
+        await storage.insert(Schema, { user: '2', list: [] });
+        await expect(failing).rejects.toThrow('Failed');
+        expect(statements).toEqual(['INSERT']);
+
+        await storage.transaction(async () => {
+            await storage.insert(Schema, { user: '3', list: [] });
+        });
+        expect(statements).toEqual(['INSERT', 'BEGIN', 'INSERT', 'COMMIT']);
+        expect((await storage.find(Schema, {})).map(doc => doc.user)).toEqual(['2', '3']);
+    });
+});
@@ -0,0 +1,58 @@
+import Schemas from '../../src/database/Schemas';
+import { createClient } from '../helpers';
+
+describe('UserDataManager', () => {
+    /** Creates a client whose database stores some data of user 1 */
+    async function createUserClient(): Promise<ReturnType<typeof createClient>> {
+        const client = createClient();
+        const storage = client.databaseStorage;
+        const guild = '100';
+
+        await storage.insert(Schemas.ActiveModel, {
+            _id: 'case-1', type: 'mute', guild, userId: '1', userTag: 'user#0001', duration: 60_000,
+        });
+        await storage.insert(Schemas.ModerationsModel, {
+            _id: 'case-1', type: 'mute', guild, userId: '1', userTag: 'user#0001', modId: '2', modTag: 'mod#0002',
+            reason: 'Spam',
+        });
+        await storage.insert(Schemas.StickyRolesModel, { guild, user: '1', roles: ['200'] });
+        await storage.insert(Schemas.TodoModel, { user: '1', list: ['Something'] });
+        return client;
+    }
+
+    it('keeps the active punishments and sticky roles, and anonymizes the moderation records', async () => {
+        const client = await createUserClient();
+        const storage = client.databaseStorage;
+
+        const erasure = await client.userData.erase('1');
+        expect(erasure).toMatchObject({
+            deleted: { afk: 0, reminders: 0, todo: 1 },
+            anonymized: { moderations: 1 },
+            kept: { active: 1, stickyRoles: 1 },
+        });
+
+        expect(await storage.find(Schemas.ActiveModel, {})).toMatchObject([{ userId: '1', userTag: 'user#0001' }]);
+        expect(await storage.find(Schemas.StickyRolesModel, {})).toMatchObject([{ user: '1', roles: ['200'] }]);
+        expect(await storage.find(Schemas.ModerationsModel, {})).toMatchObject([{ userId: '0', modId: '2' }]);
+        expect(await storage.find(Schemas.TodoModel, {})).toEqual([]);
+    });
+
+    it("erases without a transaction when the database doesn't support them", async () => {
+        const client = await createUserClient();
+        const storage = client.databaseStorage;
+        jest.spyOn(storage, 'supportsTransactions').mockReturnValue(false);
+        const transaction = jest.spyOn(storage, 'transaction');
+
+        const erasure = await client.userData.erase('1');
+        expect(transaction).not.toHaveBeenCalled();
+        expect(erasure.deleted.todo).toBe(1);
+    });
+
+    it("throws when the database storage isn't connected", async () => {
+        const client = await createUserClient();
+        jest.spyOn(client.databaseStorage, 'isReady').mockReturnValue(false);
+
+        await expect(client.userData.export('1')).rejects.toThrow('isn\'t connected');
+        await expect(client.userData.erase('1')).rejects.toThrow('isn\'t connected');
+    });
+});
@@ -0,0 +1,37 @@
+import { CommandoMessage, InMemorySettingProvider, SettingProvider, SettingsSchema } from '../src';
+import { createClient } from './helpers';
+
+describe('CommandDispatcher', () => {
+    function createDispatcher(): {
+        client: ReturnType<typeof createClient>;
+        provider: InMemorySettingProvider<true>;
+    } {
+        const client = createClient({
+            prefix: '!',
+            settingsSchema: new SettingsSchema({ settings: { prefix: { type: 'string', default: '?' } } }),
+        });
+        const provider = new InMemorySettingProvider<true>();
+        client.provider = provider;
+        provider.init(client);
+        return { client, provider };
+    }
+
+    function getPrefixes(client: ReturnType<typeof createClient>, channelId: string): string[] {
+        // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+        const message = { channelId, guild: null } as CommandoMessage;
+        return client.dispatcher['getPrefixes'](message);
+    }
+
+    it('ignores the default prefix of the schema when looking for a channel prefix', () => {
+        const { client } = createDispatcher();
+        expect(getPrefixes(client, '1')).toEqual(['!']);
+    });
+
+    it('uses the prefix set for the channel', () => {
+        const { client, provider } = createDispatcher();
+        provider.set(SettingProvider.getChannelScopeID('1'), 'prefix', '$');
+
+        expect(getPrefixes(client, '1')).toEqual(['$']);
+        expect(getPrefixes(client, '2')).toEqual(['!']);
+    });
+});
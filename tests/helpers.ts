@@ -0,0 +1,27 @@
+import { ShardClientUtil } from 'discord.js';
+import { CommandoClient, MemoryDatabaseStorage } from '../src';
+
+/**
+ * Creates a client that never logs in, keeping its database in memory
+ * @param options - Options to add to the client's
+ */
+export function createClient(
+    options: Partial<ConstructorParameters<typeof CommandoClient>[0]> = {}
+): CommandoClient<true> {
+    return new CommandoClient({
+        intents: [],
+        databaseStorage: new MemoryDatabaseStorage(),
+        ...options,
+    }) as CommandoClient<true>;
+}
+
+/**
+ * Finds a guild ID owned by a shard
+ * @param shard - ID of the shard
+ * @param count - Amount of shards
+ */
+export function guildOfShard(shard: number, count: number): string {
+    for (let id = 1n; ; id += 1n << 22n) {
+        if (ShardClientUtil.shardIdForGuildId(id.toString(), count) === shard) return id.toString();
+    }
+}
@@ -0,0 +1,40 @@
+import { InMemorySettingProvider, SettingProvider } from '../../src';
+import { createClient } from '../helpers';
+
+describe('GuildSettingsHelper', () => {
+    it('throws without a provider', () => {
+        const client = createClient();
+
+        expect(() => client.settings.get('prefix')).toThrow('No settings provider is available.');
+    });
+
+    it('reads and writes the global settings through the provider', async () => {
+        const client = createClient();
+        const provider = new InMemorySettingProvider();
+        client.provider = provider;
+        provider.init(client);
+
+        await client.settings.set('prefix', '?');
+        expect(client.settings.get('prefix')).toBe('?');
+        expect(provider.get(null, 'prefix')).toBe('?');
+
+        await client.settings.remove('prefix');
+        expect(client.settings.get('prefix', '!')).toBe('!');
+    });
+
+    it('reads and writes the settings of a user scope', async () => {
+        const client = createClient();
+        const provider = new InMemorySettingProvider();
+        client.provider = provider;
+        provider.init(client);
+
+        const user = client.settings.forUser('123');
+        await user.set('prefix', '$');
+        expect(user.get('prefix')).toBe('$');
+        expect(provider.get(SettingProvider.getUserScopeID('123'), 'prefix')).toBe('$');
+        expect(client.settings.get('prefix')).toBeUndefined();
+
+        await user.clear();
+        expect(user.get('prefix')).toBeUndefined();
+    });
+});
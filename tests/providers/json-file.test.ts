@@ -0,0 +1,80 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { JSONFileSettingProvider } from '../../src';
+import { createClient } from '../helpers';
+
+describe('JSONFileSettingProvider', () => {
+    let directory: string;
+    let file: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(path.join(tmpdir(), 'commando-'));
+        file = path.join(directory, 'settings.json');
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('starts empty without a file', async () => {
+        const provider = new JSONFileSettingProvider(file);
+        await provider.init(createClient());
+
+        expect(provider.get('123', 'prefix', '!')).toBe('!');
+    });
+
+    it('writes the settings once flushed', async () => {
+        const provider = new JSONFileSettingProvider(file, 60_000);
+        await provider.init(createClient());
+
+        provider.set('123', 'prefix', '?');
+        provider.set(null, 'prefixes', ['a']);
+        expect(provider.get('123', 'prefix')).toBe('?');
+        await expect(readFile(file, 'utf8')).rejects.toThrow();
+
+        await provider.flush();
+        expect(JSON.parse(await readFile(file, 'utf8'))).toEqual({
+            123: { prefix: '?' },
+            global: { prefixes: ['a'] },
+        });
+        await provider.destroy();
+    });
+
+    it('writes the pending changes when destroyed', async () => {
+        const provider = new JSONFileSettingProvider(file, 60_000);
+        await provider.init(createClient());
+
+        provider.set('123', 'cmd-ping', false);
+        await provider.destroy();
+        expect(JSON.parse(await readFile(file, 'utf8'))).toEqual({ 123: { 'cmd-ping': false } });
+    });
+
+    it('reloads the stored settings', async () => {
+        const first = new JSONFileSettingProvider(file);
+        await first.init(createClient());
+        first.set('123', 'prefix', '$');
+        first.remove('123', 'prefix');
+        first.set('123', 'prefixes', ['%']);
+        first.set('456', 'prefix', '&');
+        first.clear('456');
+        await first.destroy();
+
+        const client = createClient();
+        const second = new JSONFileSettingProvider(file);
+        await second.init(client);
+        expect(second.get('123', 'prefix')).toBeUndefined();
+        expect(second.get('123', 'prefixes')).toEqual(['%']);
+        expect(second.get('456', 'prefix')).toBeUndefined();
+    });
+
+    it('falls back to the temporary file of an interrupted write', async () => {
+        await writeFile(file, '{ "global": ');
+        await writeFile(`${file}.tmp`, JSON.stringify({ global: { prefix: '>' } }));
+
+        const client = createClient();
+        const provider = new JSONFileSettingProvider(file);
+        await provider.init(client);
+        expect(client.prefix).toBe('>');
+    });
+});
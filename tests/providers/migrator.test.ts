@@ -0,0 +1,27 @@
+import { DefaultSQLiteSettings, InMemorySettingProvider, SettingsMigrator } from '../../src';
+import { createClient } from '../helpers';
+
+describe('SettingsMigrator', () => {
+    it('reads a loaded source without applying its settings or storing the client changes', async () => {
+        const client = createClient();
+        const target = new InMemorySettingProvider<true, DefaultSQLiteSettings>({ global: { prefix: '!' } });
+        client.provider = target;
+        target.init(client);
+
+        const source = new InMemorySettingProvider({ global: { prefix: '?', prefixes: ['a'] } });
+        await source.load(client);
+        expect(client.prefix).toBe('!');
+
+        client.emit('commandPrefixChange', null, '$');
+        await new Promise(resolve => setImmediate(resolve));
+        expect(source.get(null, 'prefix')).toBe('?');
+        expect(target.get(null, 'prefix')).toBe('$');
+
+        const migrator = new SettingsMigrator(source, target);
+        const report = await migrator.migrate({ overwrite: true });
+        expect(report).toMatchObject({ guilds: 1, copied: 2, unchanged: 0 });
+        expect(report.conflicts).toEqual([{ guild: 'global', key: 'prefix', source: '?', target: '$' }]);
+        expect(migrator.verify()).toEqual([]);
+        expect(target.get(null, 'prefixes')).toEqual(['a']);
+    });
+});
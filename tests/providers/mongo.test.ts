@@ -0,0 +1,61 @@
+import { InMemoryMongoSettingsCollection, MongoSettingProvider } from '../../src';
+import { createClient } from '../helpers';
+
+describe('MongoSettingProvider', () => {
+    it('loads the stored settings into the client', async () => {
+        const collection = new InMemoryMongoSettingsCollection([
+            { _id: 'global', settings: { prefix: '?' } },
+            { _id: '123', settings: { prefixes: ['!'] } },
+        ]);
+        const client = createClient();
+        const provider = new MongoSettingProvider(collection);
+        await provider.init(client);
+
+        expect(client.prefix).toBe('?');
+        expect(provider.get('123', 'prefixes')).toEqual(['!']);
+        expect(provider.get('123', 'prefix', '>')).toBe('>');
+    });
+
+    it('stores setting changes in the collection', async () => {
+        const collection = new InMemoryMongoSettingsCollection();
+        const provider = new MongoSettingProvider(collection);
+        await provider.init(createClient());
+
+        await provider.set('123', 'prefix', '$');
+        await provider.set('123', 'cmd-ping', false);
+        expect(collection.documents.get('123')).toEqual({ _id: '123', settings: { prefix: '$', 'cmd-ping': false } });
+
+        await provider.remove('123', 'prefix');
+        expect(collection.documents.get('123')).toEqual({ _id: '123', settings: { 'cmd-ping': false } });
+
+        await provider.clear('123');
+        expect(collection.documents.has('123')).toBe(false);
+    });
+
+    it('stores the changes made through the client', async () => {
+        const collection = new InMemoryMongoSettingsCollection();
+        const client = createClient();
+        const provider = new MongoSettingProvider(collection);
+        await provider.init(client);
+
+        client.emit('commandPrefixChange', null, '%');
+        await new Promise(resolve => setImmediate(resolve));
+        expect(collection.documents.get('global')?.settings).toEqual({ prefix: '%' });
+
+        provider.destroy();
+        client.emit('commandPrefixChange', null, '&');
+        await new Promise(resolve => setImmediate(resolve));
+        expect(collection.documents.get('global')?.settings).toEqual({ prefix: '%' });
+    });
+
+    it('reloads what another provider stored', async () => {
+        const collection = new InMemoryMongoSettingsCollection();
+        const first = new MongoSettingProvider(collection);
+        await first.init(createClient());
+        await first.set(null, 'prefixes', ['a', 'b']);
+
+        const second = new MongoSettingProvider(collection);
+        await second.init(createClient());
+        expect(second.get(null, 'prefixes')).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,92 @@
+import {
+    DefaultSQLiteSettings,
+    InMemoryMongoSettingsCollection,
+    InMemorySettingProvider,
+    MongoSettingProvider,
+    SettingsSchema,
+} from '../../src';
+import { createClient } from '../helpers';
+
+interface CustomSettings extends DefaultSQLiteSettings {
+    language?: string | undefined;
+    volume?: number | undefined;
+}
+
+describe('SettingsSchema', () => {
+    it('applies and stores the migrations to the current version', async () => {
+        const collection = new InMemoryMongoSettingsCollection([
+            { _id: '123', settings: { [SettingsSchema.versionKey]: 1, lang: 'en' } },
+        ]);
+        const schema = new SettingsSchema<CustomSettings>({
+            version: 2,
+            migrations: {
+                2: ({ lang, ...settings }): Record<string, unknown> => ({ ...settings, language: lang }),
+            },
+        });
+        const provider = new MongoSettingProvider<true, CustomSettings>(collection);
+        await provider.init(createClient({ settingsSchema: schema }));
+
+        expect(provider.get('123', 'language')).toBe('en');
+        expect(collection.documents.get('123')).toEqual({
+            _id: '123',
+            settings: { [SettingsSchema.versionKey]: 2, language: 'en' },
+        });
+    });
+
+    it('returns the default of the settings that aren\'t set', () => {
+        const schema = new SettingsSchema<CustomSettings>({
+            settings: { language: { type: 'string', default: 'en' } },
+        });
+        const provider = new InMemorySettingProvider<true, CustomSettings>({ 123: { language: 'es' } });
+        provider.init(createClient({ settingsSchema: schema }));
+
+        expect(provider.get('123', 'language')).toBe('es');
+        expect(provider.get('456', 'language')).toBe('en');
+        expect(provider.get(null, 'language')).toBe('en');
+    });
+
+    it('rejects values of the wrong type or that fail to validate', () => {
+        const schema = new SettingsSchema<CustomSettings>({
+            settings: { volume: { type: 'number', validate: (value): boolean | string => value <= 100 || 'Too loud.' } },
+        });
+        const provider = new InMemorySettingProvider<true, CustomSettings>();
+        provider.init(createClient({ settingsSchema: schema }));
+
+        expect(() => provider.set('123', 'volume', '50' as unknown as number)).toThrow(TypeError);
+        expect(() => provider.set('123', 'volume', 150)).toThrow('Too loud.');
+        expect(provider.get('123', 'volume')).toBeUndefined();
+
+        provider.set('123', 'volume', 50);
+        expect(provider.get('123', 'volume')).toBe(50);
+    });
+
+    it('skips the settings that fail to migrate', () => {
+        const client = createClient({ settingsSchema: new SettingsSchema({ version: 1 }) });
+        const warnings: string[] = [];
+        client.on('warn', warning => warnings.push(warning));
+
+        const provider = new InMemorySettingProvider({
+            global: { prefix: '?' },
+            123: { [SettingsSchema.versionKey]: 2, prefix: '$' } as DefaultSQLiteSettings,
+        });
+        provider.init(client);
+
+        expect(provider.get(null, 'prefix')).toBe('?');
+        expect(provider.get('123', 'prefix')).toBeUndefined();
+        expect(warnings.some(warning => warning.includes('couldn\'t migrate the settings of 123'))).toBe(true);
+    });
+
+    it('warns about invalid settings set from client events', async () => {
+        const client = createClient({ settingsSchema: new SettingsSchema() });
+        const warnings: string[] = [];
+        client.on('warn', warning => warnings.push(warning));
+
+        const provider = new InMemorySettingProvider();
+        provider.init(client);
+
+        expect(() => client.emit('commandPrefixesChange', null, [1] as unknown as string[])).not.toThrow();
+        await new Promise(resolve => setImmediate(resolve));
+        expect(provider.get(null, 'prefixes')).toBeUndefined();
+        expect(warnings).toEqual([expect.stringContaining('couldn\'t store prefixes in global')]);
+    });
+});
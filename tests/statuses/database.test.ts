@@ -0,0 +1,62 @@
+import { Command, DatabaseCommandStatusStore, InMemorySettingProvider } from '../../src';
+import { createClient } from '../helpers';
+
+/** Waits for the statuses to be stored */
+function stored(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('DatabaseCommandStatusStore', () => {
+    it('stores the latest statuses, enabled ones included', async () => {
+        const client = createClient({ commandStatusStore: new DatabaseCommandStatusStore() });
+        const store = client.commandStatusStore;
+
+        store.set('commands', 'global', 'ping', false);
+        store.set('commands', 'global', 'eval', true);
+        store.set('groups', 'global', 'util', false);
+        store.set('commands', 'global', 'ping', true);
+        await stored();
+
+        const docs = await client.database.disabled.fetchMany({}, { force: true });
+        expect(docs.size).toBe(1);
+        expect(docs.first()).toMatchObject({
+            global: true,
+            commands: [],
+            groups: ['util'],
+            enabledCommands: ['ping', 'eval'],
+            enabledGroups: [],
+        });
+    });
+
+    it('loads the stored statuses once the database is ready', async () => {
+        const client = createClient({ commandStatusStore: new DatabaseCommandStatusStore() });
+        await client.database.disabled.add({
+            global: true, commands: ['ping'], groups: [], enabledCommands: ['eval'], enabledGroups: ['util'],
+        });
+
+        client.emit('databaseReady', client);
+        const store = client.commandStatusStore;
+        expect(store.get('commands', 'global', 'ping')).toBe(false);
+        expect(store.get('commands', 'global', 'eval')).toBe(true);
+        expect(store.get('groups', 'global', 'util')).toBe(true);
+    });
+
+    it("isn't persisted by the setting provider", async () => {
+        const client = createClient({ commandStatusStore: new DatabaseCommandStatusStore() });
+        client.registry.registerDefaultGroups();
+        const ping = new class extends Command {
+            public run(): void {
+                // Never run
+            }
+        }(client, { name: 'ping', group: 'util', description: 'Pong.' });
+        client.registry.registerCommand(ping);
+        const provider = new InMemorySettingProvider<true>();
+        client.provider = provider;
+        provider.init(client);
+
+        ping.setEnabledIn(null, false);
+        await stored();
+        expect(provider.get(null, 'cmd-ping')).toBeUndefined();
+        expect(client.commandStatusStore.get('commands', 'global', 'ping')).toBe(false);
+    });
+});
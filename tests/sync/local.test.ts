@@ -0,0 +1,51 @@
+import { InMemorySettingProvider, LocalSettingsSyncTransport, SettingProvider } from '../../src';
+import { createClient, guildOfShard } from '../helpers';
+
+/** Waits for the changes sent by the providers to be delivered */
+function delivered(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+describe('LocalSettingsSyncTransport', () => {
+    function createShards(): Array<InMemorySettingProvider<true>> {
+        return LocalSettingsSyncTransport.createShards(2).map(transport => {
+            const client = createClient({ settingsSync: transport });
+            const provider = new InMemorySettingProvider<true>();
+            client.provider = provider;
+            provider.init(client);
+            return provider;
+        });
+    }
+
+    it('sends global and scoped changes to every other shard', async () => {
+        const [first, second] = createShards();
+        const scope = SettingProvider.getUserScopeID('123');
+
+        first.set(null, 'prefix', '?');
+        first.set(scope, 'prefix', '$');
+        await delivered();
+        expect(second.get(null, 'prefix')).toBe('?');
+        expect(second.client.prefix).toBe('?');
+        expect(second.get(scope, 'prefix')).toBe('$');
+
+        second.remove(null, 'prefix');
+        await delivered();
+        expect(first.get(null, 'prefix')).toBeUndefined();
+    });
+
+    it('sends guild changes to the shard that owns the guild only', async () => {
+        const [first, second] = createShards();
+        const ownGuild = guildOfShard(0, 2);
+        const otherGuild = guildOfShard(1, 2);
+
+        first.set(ownGuild, 'prefixes', ['a']);
+        first.set(otherGuild, 'prefixes', ['b']);
+        await delivered();
+        expect(second.get(ownGuild, 'prefixes')).toBeUndefined();
+        expect(second.get(otherGuild, 'prefixes')).toEqual(['b']);
+
+        first.clear(otherGuild);
+        await delivered();
+        expect(second.get(otherGuild, 'prefixes')).toBeUndefined();
+    });
+});
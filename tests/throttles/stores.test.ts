@@ -0,0 +1,46 @@
+import {
+    DatabaseThrottleStore,
+    InMemorySettingProvider,
+    MemoryThrottleStore,
+    SettingProviderThrottleStore,
+    ThrottleStore,
+} from '../../src';
+import { createClient } from '../helpers';
+
+describe.each<[string, () => ThrottleStore]>([
+    ['MemoryThrottleStore', (): ThrottleStore => new MemoryThrottleStore()],
+    ['DatabaseThrottleStore', (): ThrottleStore => new DatabaseThrottleStore()],
+    ['SettingProviderThrottleStore', (): ThrottleStore => new SettingProviderThrottleStore()],
+])('%s', (_, createStore) => {
+    function createThrottleStore(): ThrottleStore {
+        const client = createClient({ throttleStore: createStore() });
+        const provider = new InMemorySettingProvider<true>();
+        client.provider = provider;
+        provider.init(client);
+        return client.throttleStore;
+    }
+
+    it('counts every concurrent usage of a bucket', async () => {
+        const store = createThrottleStore();
+
+        const throttles = await Promise.all([1, 2, 3].map(() => store.consume('ping:global', 60)));
+        expect(throttles.map(throttle => throttle.usages).sort()).toEqual([1, 2, 3]);
+        expect(await store.get('ping:global')).toMatchObject({ usages: 3 });
+    });
+
+    it('takes back refunded usages', async () => {
+        const store = createThrottleStore();
+
+        await store.consume('ping:global', 60);
+        await store.consume('ping:global', 60);
+        await store.refund('ping:global');
+        expect(await store.get('ping:global')).toMatchObject({ usages: 1 });
+    });
+
+    it('starts a new throttle once the previous one expired', async () => {
+        const store = createThrottleStore();
+
+        await store.set('ping:global', { start: Date.now() - 120_000, usages: 5 }, 60);
+        expect(await store.consume('ping:global', 60)).toMatchObject({ usages: 1 });
+    });
+});